@@ -0,0 +1,75 @@
+/**
+ * Compares `safeParseTBox` with `safeParseTBoxCompiled` on command, event and aggregate schemas,
+ * for valid and invalid payloads.
+ *
+ * Run with `npm run bench`. Set `BENCH_ITERATIONS` to change the number of parses per case.
+ */
+import { Type, TAnySchema } from '@sinclair/typebox'
+import { CMD, EVT } from '../core/__schema__'
+import { safeParseTBox, safeParseTBoxCompiled, SafeParseTBox } from '../core/parsing'
+
+const iterations = Number(process.env.BENCH_ITERATIONS ?? 100_000)
+
+const WasteData = Type.Object({
+    wasteId: Type.String(),
+    weight: Type.Number({ minimum: 0 }),
+    toxicity: Type.Union([Type.Literal('low'), Type.Literal('medium'), Type.Literal('high')]),
+    location: Type.Object({ id: Type.String(), type: Type.Union([Type.Literal('hazardous'), Type.Literal('cold-storage'), Type.Literal('standard')]) })
+})
+
+const WeightWasteCmd = CMD(Type.Literal('weight-waste'), WasteData)
+const WasteWeightedEvt = EVT(Type.Literal('waste-weighted'), WasteData)
+const WeightedWaste = Type.Object({ _tag: Type.Literal('weighted'), data: WasteData })
+
+const data = { wasteId: 'w-1', weight: 12.5, toxicity: 'high', location: { id: 'l-1', type: 'hazardous' } }
+const envelope = { id: 'm-1', timestamp: 1700000000000, correlationid: 'c-1', causationid: undefined }
+
+type BenchCase = { name: string, schema: TAnySchema, valid: unknown, invalid: unknown }
+
+const cases: BenchCase[] = [
+    {
+        name: 'command',
+        schema: WeightWasteCmd,
+        valid: { ...envelope, msgType: 'cmd', type: 'weight-waste', data },
+        invalid: { ...envelope, msgType: 'cmd', type: 'weight-waste', data: { ...data, weight: -1 } }
+    },
+    {
+        name: 'event',
+        schema: WasteWeightedEvt,
+        valid: { ...envelope, msgType: 'evt', type: 'waste-weighted', data },
+        invalid: { ...envelope, msgType: 'evt', type: 'waste-weighted', data: { ...data, toxicity: 'unknown' } }
+    },
+    {
+        name: 'aggregate',
+        schema: WeightedWaste,
+        valid: { _tag: 'weighted', data },
+        invalid: { _tag: 'weighted', data: { ...data, location: { id: 'l-1' } } }
+    }
+]
+
+const backends: [string, SafeParseTBox][] = [
+    ['safeParseTBox', safeParseTBox],
+    ['safeParseTBoxCompiled', safeParseTBoxCompiled]
+]
+
+/**
+ * Parses the payload `iterations` times and returns the throughput.
+ */
+const measure = (parse: SafeParseTBox) => (schema: TAnySchema) => (payload: unknown): number => {
+    const p = parse(schema)
+    const start = performance.now()
+    for (let i = 0; i < iterations; i++) {
+        p(payload)
+    }
+    const elapsed = performance.now() - start
+    return Math.round(iterations / (elapsed / 1000))
+}
+
+const rows = cases.flatMap(c => backends.map(([backend, parse]) => ({
+    schema: c.name,
+    backend,
+    'valid ops/s': measure(parse)(c.schema)(c.valid),
+    'invalid ops/s': measure(parse)(c.schema)(c.invalid)
+})))
+
+console.table(rows)
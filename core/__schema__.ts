@@ -12,6 +12,7 @@ const Msg = <M extends TSchema, T extends TSchema, D extends TSchema>(
     id: Type.String(),
     msgType: M,
     type: T,
+    schemaVersion: Type.Optional(Type.Number()),
     timestamp: Type.Number(),
     correlationid: Type.String(),
     causationid: Type.Union([Type.String(), Type.Undefined()]),
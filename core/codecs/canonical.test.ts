@@ -0,0 +1,15 @@
+import { canonicalJson } from "./canonical"
+
+describe('canonicalJson', () => {
+    it('sorts keys at every depth, whatever the insertion order', () => {
+        const a = { b: 1, a: { d: [{ y: 1, x: 2 }], c: 'c' } }
+        const b = { a: { c: 'c', d: [{ x: 2, y: 1 }] }, b: 1 }
+
+        expect(canonicalJson(a)).toBe('{"a":{"c":"c","d":[{"x":2,"y":1}]},"b":1}')
+        expect(canonicalJson(b)).toBe(canonicalJson(a))
+    })
+
+    it('drops undefined properties like JSON.stringify', () => {
+        expect(canonicalJson({ b: undefined, a: 1, c: [undefined] })).toBe('{"a":1,"c":[null]}')
+    })
+})
@@ -0,0 +1,24 @@
+/**
+ * Encodes a value as canonical JSON: object keys sorted, no whitespace, `undefined` properties omitted.
+ * Equal values always give the same string, whatever the order their keys were set in,
+ * so the encoding can be hashed to compare or deduplicate messages.
+ * Numbers and strings are written as `JSON.stringify` writes them, which matches RFC 8785 (JCS) for JSON values.
+ * @param {unknown} value - The value to encode.
+ * @returns {string} The canonical JSON.
+ */
+export const canonicalJson = (value: unknown): string => {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value) ?? 'null'
+    }
+    if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+        return canonicalJson((value as { toJSON: () => unknown }).toJSON())
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(v => v === undefined || typeof v === 'function' ? 'null' : canonicalJson(v)).join(',')}]`
+    }
+    const entries = Object.keys(value)
+        .sort()
+        .filter(k => value[k] !== undefined && typeof value[k] !== 'function')
+        .map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`)
+    return `{${entries.join(',')}}`
+}
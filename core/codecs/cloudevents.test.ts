@@ -0,0 +1,55 @@
+import { Static, Type } from "@sinclair/typebox"
+import { EVT } from "../__schema__"
+import { safeParseTBox } from "../parsing"
+import { decodeCloudEvent, encodeCloudEvent, toCloudEvent } from "./cloudevents"
+
+const ToDoCreated = EVT(Type.Literal('todo-created'), Type.Object({ title: Type.String() }))
+type ToDoCreated = Static<typeof ToDoCreated>
+
+const evt: ToDoCreated = {
+    id: 'evt-1',
+    msgType: 'evt',
+    type: 'todo-created',
+    schemaVersion: 2,
+    timestamp: Date.UTC(2024, 0, 2, 3, 4, 5),
+    correlationid: 'corr-1',
+    causationid: 'cmd-1',
+    data: { title: 'milk' }
+}
+const parseToDoCreated = safeParseTBox<ToDoCreated>(ToDoCreated)
+const encode = encodeCloudEvent({ source: '/todo' })
+const decode = decodeCloudEvent(parseToDoCreated)
+
+describe('CloudEvents codec', () => {
+    it('round-trips a message through the JSON structured format', () => {
+        const jsonRes = encode(evt)
+        if (jsonRes.outcome !== 'success') throw new Error('expected the message to encode')
+
+        expect(JSON.parse(jsonRes.data)).toEqual({
+            specversion: '1.0', id: 'evt-1', source: '/todo', type: 'todo-created', time: '2024-01-02T03:04:05.000Z',
+            datacontenttype: 'application/json', data: { title: 'milk' },
+            correlationid: 'corr-1', causationid: 'cmd-1', msgtype: 'evt', schemaversion: 2
+        })
+        expect(decode(jsonRes.data)).toEqual({ outcome: 'success', data: evt })
+    })
+
+    it('fails to encode a message whose timestamp is not a valid date', () => {
+        expect(toCloudEvent({ source: '/todo' })({ ...evt, timestamp: NaN })).toMatchObject({ outcome: 'failure', cause: [{ msg: 'invalid_timestamp', data: { id: 'evt-1' } }] })
+    })
+
+    it('fails to decode a CloudEvent without time', () => {
+        const json = JSON.stringify({ specversion: '1.0', id: 'evt-1', source: '/todo', type: 'todo-created', correlationid: 'corr-1', data: { title: 'milk' } })
+
+        expect(decode(json)).toMatchObject({ outcome: 'failure', cause: [{ msg: 'invalid_cloudevent' }] })
+    })
+
+    it('fails to decode a CloudEvent without correlationid, as its message is invalid', () => {
+        const json = JSON.stringify({ specversion: '1.0', id: 'evt-1', source: '/todo', type: 'todo-created', time: '2024-01-02T03:04:05.000Z', data: { title: 'milk' } })
+
+        expect(decode(json)).toMatchObject({ outcome: 'failure', cause: [{ msg: 'parse_error' }] })
+    })
+
+    it('fails to decode invalid JSON', () => {
+        expect(decode('{"specversion":')).toMatchObject({ outcome: 'failure', cause: [{ msg: 'invalid_json' }] })
+    })
+})
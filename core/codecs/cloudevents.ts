@@ -0,0 +1,135 @@
+import { Type, Static } from '@sinclair/typebox'
+import { Msg, MsgType } from '../messages'
+import { safeParseTBoxCompiled, SafeParse, SafeParseFails } from '../parsing'
+import { fail, isFailure, map, Result, succeed } from '../result'
+import { canonicalJson } from './canonical'
+
+/**
+ * Type representing possible failure messages when encoding or decoding a CloudEvent.
+ * - `invalid_json`: the input is not valid JSON.
+ * - `invalid_cloudevent`: the input is not a CloudEvents 1.0 JSON event carrying a message.
+ * - `invalid_timestamp`: the message's `timestamp` is not a valid date, so it has no `time`.
+ */
+export type CodecFails = 'invalid_json' | 'invalid_cloudevent' | 'invalid_timestamp'
+
+/**
+ * The CloudEvents 1.0 JSON structured format, with the extension attributes carrying the rest of the `Msg` envelope.
+ */
+export const CloudEventSchema = Type.Object({
+    specversion: Type.Literal('1.0'),
+    id: Type.String({ minLength: 1 }),
+    source: Type.String({ minLength: 1 }),
+    type: Type.String({ minLength: 1 }),
+    time: Type.Optional(Type.String()),
+    datacontenttype: Type.Optional(Type.String()),
+    dataschema: Type.Optional(Type.String()),
+    subject: Type.Optional(Type.String()),
+    data: Type.Optional(Type.Unknown()),
+    correlationid: Type.Optional(Type.String()),
+    causationid: Type.Optional(Type.String()),
+    msgtype: Type.Optional(Type.Union([Type.Literal('cmd'), Type.Literal('evt')])),
+    schemaversion: Type.Optional(Type.Integer({ minimum: 1 }))
+})
+
+/**
+ * A CloudEvent in the JSON structured format.
+ */
+export type CloudEvent = Static<typeof CloudEventSchema>
+
+/**
+ * Options for encoding messages as CloudEvents.
+ * @property {string} source - The `source` attribute, identifying the context the messages come from, e.g. `/dc-ts/todo`.
+ * @property {string} [subject] - The `subject` attribute, if any.
+ */
+export type CloudEventOptions = {
+    source: string
+    subject?: string
+}
+
+const parseCloudEvent = safeParseTBoxCompiled<CloudEvent>(CloudEventSchema)
+
+/**
+ * Converts a message to a CloudEvent.
+ * `id`, `type` and `data` map to the attributes of the same name, `timestamp` to `time` (RFC 3339),
+ * and `correlationid`, `causationid`, `msgType` and `schemaVersion` to the `correlationid`, `causationid`,
+ * `msgtype` and `schemaversion` extension attributes.
+ * @param {CloudEventOptions} options - The source and subject of the events.
+ * @returns A function that takes a message and returns the CloudEvent, or `invalid_timestamp` if the timestamp is not a valid date.
+ */
+export const toCloudEvent = (options: CloudEventOptions) => <M extends MsgType, T extends string, D>(msg: Msg<M, T, D>): Result<CloudEvent, CodecFails> => {
+    const time = new Date(msg.timestamp)
+    if (Number.isNaN(time.getTime())) {
+        return fail<CodecFails>('invalid_timestamp', { id: msg.id, timestamp: msg.timestamp })
+    }
+    const ce: CloudEvent = {
+        specversion: '1.0',
+        id: msg.id,
+        source: options.source,
+        type: msg.type,
+        time: time.toISOString(),
+        datacontenttype: 'application/json',
+        subject: options.subject,
+        data: msg.data,
+        correlationid: msg.correlationid,
+        causationid: msg.causationid,
+        msgtype: msg.msgType,
+        schemaversion: msg.schemaVersion
+    }
+    return succeed(Object.fromEntries(Object.entries(ce).filter(([, v]) => v !== undefined)) as CloudEvent)
+}
+
+/**
+ * Converts a CloudEvent back to a message, and validates it with the message's schema.
+ * A CloudEvent without the `msgtype` extension is read as an event.
+ * @template M The type of the message.
+ * @param {SafeParse<M>} parseMsg - Validates the message, e.g. `safeParseTBox` with the `CMD` or `EVT` schema of its type.
+ * @returns A function that takes a CloudEvent and returns the validated message.
+ */
+export const fromCloudEvent = <M extends Msg<MsgType, string, any>>(parseMsg: SafeParse<M>) =>
+    (input: unknown): Result<M, CodecFails | SafeParseFails> => {
+        const ceRes = parseCloudEvent(input as CloudEvent)
+        if (isFailure(ceRes)) {
+            return fail<CodecFails>('invalid_cloudevent', ceRes.cause.map(c => c.data))
+        }
+        const ce = ceRes.data
+        const timestamp = ce.time === undefined ? NaN : Date.parse(ce.time)
+        if (Number.isNaN(timestamp)) {
+            return fail<CodecFails>('invalid_cloudevent', { id: ce.id, time: ce.time })
+        }
+        const msg = {
+            id: ce.id,
+            msgType: ce.msgtype ?? 'evt',
+            type: ce.type,
+            ...(ce.schemaversion === undefined ? {} : { schemaVersion: ce.schemaversion }),
+            timestamp,
+            correlationid: ce.correlationid,
+            causationid: ce.causationid,
+            data: ce.data
+        }
+        return parseMsg(msg as M)
+    }
+
+/**
+ * Encodes a message as a CloudEvent in the JSON structured format, with canonical key order.
+ * @param {CloudEventOptions} options - The source and subject of the events.
+ * @returns A function that takes a message and returns the JSON, or `invalid_timestamp` if the timestamp is not a valid date.
+ */
+export const encodeCloudEvent = (options: CloudEventOptions) => <M extends MsgType, T extends string, D>(msg: Msg<M, T, D>): Result<string, CodecFails> =>
+    map(canonicalJson)(toCloudEvent(options)(msg))
+
+/**
+ * Decodes a CloudEvent in the JSON structured format to a message, and validates it with the message's schema.
+ * @template M The type of the message.
+ * @param {SafeParse<M>} parseMsg - Validates the message.
+ * @returns A function that takes the JSON and returns the validated message.
+ */
+export const decodeCloudEvent = <M extends Msg<MsgType, string, any>>(parseMsg: SafeParse<M>) =>
+    (json: string): Result<M, CodecFails | SafeParseFails> => {
+        let input: unknown
+        try {
+            input = JSON.parse(json)
+        } catch (e) {
+            return fail<CodecFails>('invalid_json', e instanceof Error ? e.message : String(e))
+        }
+        return fromCloudEvent(parseMsg)(input)
+    }
@@ -0,0 +1,161 @@
+import { AsyncResult, Cause, failMany, Failure, fromPromise, isFailure, mapError, Result, succeed } from "./result";
+
+/**
+ * How a set of constraints is applied.
+ * - `'fail-fast'` stops at the first failure, without running the remaining constraints.
+ * - `'accumulate'` runs every constraint and merges all failures into one `Failure`.
+ */
+export type ConstrainStrategy = 'fail-fast' | 'accumulate';
+
+/**
+ * Type representing failure messages raised by the constraint appliers themselves.
+ */
+export type ConstrainFails = 'constraint_error';
+
+/**
+ * Options for composing workflows and policies.
+ */
+export type ComposeOptions = {
+    strategy: ConstrainStrategy;
+};
+
+/**
+ * Default compose options: constraints fail fast.
+ */
+export const defaultComposeOptions: ComposeOptions = { strategy: 'fail-fast' };
+
+/**
+ * Any curried constraint, for workflows (command first) or policies (event first).
+ * @template X The type of the command or event.
+ * @template S The type of the state.
+ * @template F The type of failure messages.
+ */
+type AnyConstrain<X, S, F extends string> = (x: X) => (currState: S) => Result<S, F>;
+
+/**
+ * Any curried constraint, sync or async, for workflows (command first) or policies (event first).
+ * @template X The type of the command or event.
+ * @template S The type of the state.
+ * @template F The type of failure messages.
+ */
+type AnyAsyncConstrain<X, S, F extends string> = (x: X) => (currState: S) => Result<S, F> | AsyncResult<S, F>;
+
+/**
+ * The business documentation of a constraint or decide function.
+ * @template F The type of failure messages.
+ * @property {string} name - The name of the rule, recorded on the causes it produces.
+ * @property {string} [description] - What the rule checks or decides, in business terms.
+ * @property {F[]} [fails] - The failure codes it can raise.
+ */
+export type FnDoc<F extends string = string> = {
+    name: string;
+    description?: string;
+    fails?: F[];
+};
+
+/**
+ * Documents a constraint or decide function, for the causes it produces and for generated business documentation.
+ * @template F The type of failure messages.
+ * @param {FnDoc<F>} doc - The name, description and failure codes of the function.
+ * @returns A function that takes a function and returns a documented copy of it.
+ */
+export const documented = <F extends string>(doc: FnDoc<F>) => <Fn extends Function>(fn: Fn): Fn => {
+    const copy = ((...args: unknown[]) => fn(...args)) as unknown as Fn;
+    Object.defineProperty(copy, 'name', { value: doc.name });
+    return Object.defineProperty(copy, 'doc', { value: doc });
+};
+
+/**
+ * Names a constraint, so that the causes it produces record where they come from.
+ * Constraints declared as `const` arrow functions are already named after their variable.
+ * @template Fn The constraint type.
+ * @param {string} name - The name of the constraint.
+ * @returns A function that takes a constraint and returns a named copy of it.
+ */
+export const named = (name: string) => documented({ name });
+
+/**
+ * Gets the name of a constraint, falling back to its position when it is anonymous.
+ * @param {Function} fn - The constraint.
+ * @param {number} index - The position of the constraint in its set.
+ * @returns {string} The name of the constraint.
+ */
+export const constrainName = (fn: Function, index: number): string => fn.name || `constraint_${index}`;
+
+/**
+ * Gets the documentation of a constraint, defaulting to its name when it was not documented.
+ * @param {Function} fn - The constraint.
+ * @param {number} index - The position of the constraint in its set.
+ * @returns {FnDoc} The documentation of the constraint.
+ */
+export const constrainDoc = (fn: Function, index: number): FnDoc => (fn as { doc?: FnDoc }).doc ?? { name: constrainName(fn, index) };
+
+/**
+ * Records the constraint that produced each cause of a failure, unless a cause already names one.
+ * @template F The type of failure messages.
+ * @param {string} constraint - The name of the constraint.
+ * @returns A function that takes a failure and returns it with named causes.
+ */
+const tagCauses = (constraint: string) => <F extends string>(res: Failure<F>): Failure<F> =>
+    mapError((cause: Cause<F>) => ({ ...cause, constraint: cause.constraint ?? constraint }))(res) as Failure<F>;
+
+/**
+ * Applies a set of constraints to a command (or event) and state, following the given strategy.
+ * Every cause of the returned failure records the name of the constraint that produced it.
+ * @param {ConstrainStrategy} strategy - Whether to stop at the first failure or to accumulate them.
+ * @returns A function that takes the constraints, the command (or event) and the state, and returns the state on success.
+ */
+export const applyConstrainsWith = (strategy: ConstrainStrategy) =>
+    <X, S, F extends string>(fns: AnyConstrain<X, S, F>[]) =>
+    (x: X) =>
+    (currState: S): Result<S, F> => {
+        if (strategy === 'fail-fast') {
+            for (const [i, fn] of fns.entries()) {
+                const res = fn(x)(currState);
+                if (isFailure(res)) {
+                    return tagCauses(constrainName(fn, i))(res);
+                }
+            }
+            return succeed(currState);
+        }
+        const cause = fns.flatMap((fn, i) => {
+            const res = fn(x)(currState);
+            return isFailure(res) ? tagCauses(constrainName(fn, i))(res).cause : [];
+        });
+        return cause.length > 0 ? failMany(cause) : succeed(currState);
+    };
+
+/**
+ * Runs a constraint, sync or async, turning an exception it throws or a promise it rejects into a `constraint_error` failure.
+ * @template X The type of the command or event.
+ * @template S The type of the state.
+ * @template F The type of failure messages.
+ * @param {AnyAsyncConstrain<X, S, F>} fn - The constraint.
+ * @returns A function that takes the command (or event) and the state, and returns the result of the constraint.
+ */
+const runConstrainAsync = <X, S, F extends string>(fn: AnyAsyncConstrain<X, S, F>) =>
+    (x: X) =>
+    async (currState: S): AsyncResult<S, F | ConstrainFails> => {
+        const res = await fromPromise<ConstrainFails>('constraint_error')(Promise.resolve().then(() => fn(x)(currState)));
+        return isFailure(res) ? res : res.data;
+    };
+
+/**
+ * Applies a set of constraints, sync or async, to a command (or event) and state, concurrently.
+ * With `'fail-fast'`, returns the first failure in the order of the constraints; with `'accumulate'`, merges all failures.
+ * A constraint that throws or rejects fails with `constraint_error`, so the returned promise always resolves.
+ * Every cause of the returned failure records the name of the constraint that produced it.
+ * @param {ConstrainStrategy} strategy - Whether to return the first failure or to accumulate them.
+ * @returns A function that takes the constraints, the command (or event) and the state, and returns the state on success.
+ */
+export const applyConstrainsAsyncWith = (strategy: ConstrainStrategy) =>
+    <X, S, F extends string>(fns: AnyAsyncConstrain<X, S, F>[]) =>
+    (x: X) =>
+    async (currState: S): AsyncResult<S, F | ConstrainFails> => {
+        const results = await Promise.all(fns.map(fn => runConstrainAsync(fn)(x)(currState)));
+        const failures = results.flatMap((res, i) => isFailure(res) ? [tagCauses(constrainName(fns[i], i))(res)] : []);
+        if (failures.length === 0) {
+            return succeed(currState);
+        }
+        return strategy === 'fail-fast' ? failures[0] : failMany(failures.flatMap(f => f.cause));
+    };
@@ -0,0 +1,56 @@
+import { Type } from "@sinclair/typebox";
+import { CMD, EVT } from "../__schema__";
+import { ModuleMeta } from "../module";
+import { asyncApiDoc } from "./asyncapi";
+
+const CreateToDo = CMD(Type.Literal('create-todo'), Type.Object({ title: Type.String() }));
+const ToDoCreated = EVT(Type.Literal('todo-created'), Type.Object({ title: Type.String() }));
+
+const meta: ModuleMeta = {
+    name: 'todo',
+    description: 'Keeps track of things to do.',
+    commands: [{ type: 'create-todo', emits: ['todo-created'], description: 'Creates a to-do.', schema: CreateToDo }],
+    events: [{ type: 'todo-created', emittedBy: ['create-todo'], triggers: [], schema: ToDoCreated }],
+    policies: [],
+    state: Type.Object({})
+};
+
+describe('asyncApiDoc', () => {
+    const doc = asyncApiDoc({ version: '1.2.0' })(meta);
+
+    it('describes the module as an AsyncAPI 3.0 document', () => {
+        expect(doc).toMatchObject({
+            asyncapi: '3.0.0',
+            info: { title: 'todo', version: '1.2.0', description: 'Keeps track of things to do.' },
+            defaultContentType: 'application/json'
+        });
+    });
+
+    it('receives commands on the commands channel and sends events on the events channel', () => {
+        expect(doc.channels).toEqual({
+            'todo.commands': { address: 'todo.commands', description: 'Commands handled by the todo module.', messages: { 'create-todo': { $ref: '#/components/messages/create-todo' } } },
+            'todo.events': { address: 'todo.events', description: 'Events emitted by the todo module.', messages: { 'todo-created': { $ref: '#/components/messages/todo-created' } } }
+        });
+        expect(doc.operations).toEqual({
+            'todo.receiveCommands': { action: 'receive', channel: { $ref: '#/channels/todo.commands' }, messages: [{ $ref: '#/channels/todo.commands/messages/create-todo' }] },
+            'todo.sendEvents': { action: 'send', channel: { $ref: '#/channels/todo.events' }, messages: [{ $ref: '#/channels/todo.events/messages/todo-created' }] }
+        });
+    });
+
+    it('uses the data schema as payload and documents the envelope as headers', () => {
+        expect(doc.components.messages['create-todo']).toEqual({
+            name: 'create-todo',
+            title: 'create-todo',
+            summary: 'Creates a to-do.',
+            contentType: 'application/json',
+            headers: { $ref: '#/components/schemas/Envelope' },
+            payload: { type: 'object', properties: { title: { type: 'string' } }, required: ['title'] }
+        });
+        expect(doc.components.messages['todo-created']).toMatchObject({ summary: 'Emitted by create-todo.' });
+        expect(doc.components.schemas.Envelope).toMatchObject({ required: ['id', 'msgType', 'type', 'timestamp', 'correlationid'] });
+    });
+
+    it('takes the title and description from the options first', () => {
+        expect(asyncApiDoc({ version: '1.2.0', title: 'To-do API', description: 'Public API.' })(meta).info).toEqual({ title: 'To-do API', version: '1.2.0', description: 'Public API.' });
+    });
+});
@@ -0,0 +1,133 @@
+import { TSchema } from "@sinclair/typebox";
+import { ModuleMeta } from "../module";
+
+/**
+ * Options of the AsyncAPI generator.
+ * @property {string} version - The version of the API, e.g. the package version.
+ * @property {string} [title] - The title of the document, defaults to the module name.
+ * @property {string} [description] - The description of the document, defaults to the module description.
+ */
+export type AsyncApiOptions = {
+    version: string;
+    title?: string;
+    description?: string;
+};
+
+/**
+ * An AsyncAPI 3.0 document, as a JSON-compatible object.
+ */
+export type AsyncApiDoc = {
+    asyncapi: '3.0.0';
+    info: { title: string; version: string; description?: string };
+    defaultContentType: string;
+    channels: Record<string, unknown>;
+    operations: Record<string, unknown>;
+    components: { messages: Record<string, unknown>; schemas: Record<string, unknown> };
+};
+
+/**
+ * The envelope fields every message carries next to its payload, documented as message headers.
+ */
+const envelopeHeaders = {
+    type: 'object',
+    required: ['id', 'msgType', 'type', 'timestamp', 'correlationid'],
+    properties: {
+        id: { type: 'string', description: 'Unique ID of the message.' },
+        msgType: { type: 'string', enum: ['cmd', 'evt'], description: 'Whether the message is a command or an event.' },
+        type: { type: 'string', description: 'The command or event type.' },
+        schemaVersion: { type: 'integer', minimum: 1, description: 'Version of the payload shape; 1 when absent.' },
+        timestamp: { type: 'number', description: 'Creation time, in milliseconds since the epoch.' },
+        correlationid: { type: 'string', description: 'ID shared by every message of the same business transaction.' },
+        causationid: { type: 'string', description: 'ID of the message that caused this one; absent for messages starting a transaction.' }
+    }
+};
+
+/**
+ * Makes a string usable as a key of an AsyncAPI component or channel.
+ * @param {string} s - The string.
+ * @returns {string} The key.
+ */
+const componentKey = (s: string): string => s.replace(/[^A-Za-z0-9._-]/g, '_');
+
+/**
+ * Extracts the payload schema of a message from its full `CMD`/`EVT` schema, as plain JSON Schema.
+ * @param {TSchema} schema - The message schema.
+ * @returns The JSON Schema of the message's `data`.
+ */
+const payloadSchema = (schema: TSchema): unknown => JSON.parse(JSON.stringify(schema.properties?.data ?? schema));
+
+/**
+ * Generates an AsyncAPI 3.0 document for a module: one message per command and event type,
+ * on a `<module>.commands` channel the module receives from and a `<module>.events` channel it sends to.
+ * Payloads are the JSON Schemas of the messages' `data`; the envelope is documented as headers.
+ * @param {AsyncApiOptions} options - The version, title and description of the document.
+ * @returns A function that takes the module metadata and returns the AsyncAPI document.
+ */
+export const asyncApiDoc = (options: AsyncApiOptions) => (meta: ModuleMeta): AsyncApiDoc => {
+    const channels = {
+        commands: `${componentKey(meta.name)}.commands`,
+        events: `${componentKey(meta.name)}.events`
+    };
+
+    const message = (type: string, schema: TSchema, summary?: string) => ({
+        name: type,
+        title: type,
+        summary,
+        contentType: 'application/json',
+        headers: { $ref: '#/components/schemas/Envelope' },
+        payload: payloadSchema(schema)
+    });
+
+    const channelMessages = (types: string[]) => Object.fromEntries(
+        types.map(type => [componentKey(type), { $ref: `#/components/messages/${componentKey(type)}` }])
+    );
+
+    const operationMessages = (channel: string, types: string[]) =>
+        types.map(type => ({ $ref: `#/channels/${channel}/messages/${componentKey(type)}` }));
+
+    const cmdTypes = meta.commands.map(c => c.type);
+    const evtTypes = meta.events.map(e => e.type);
+
+    return {
+        asyncapi: '3.0.0',
+        info: {
+            title: options.title ?? meta.name,
+            version: options.version,
+            description: options.description ?? meta.description
+        },
+        defaultContentType: 'application/json',
+        channels: {
+            [channels.commands]: {
+                address: channels.commands,
+                description: `Commands handled by the ${meta.name} module.`,
+                messages: channelMessages(cmdTypes)
+            },
+            [channels.events]: {
+                address: channels.events,
+                description: `Events emitted by the ${meta.name} module.`,
+                messages: channelMessages(evtTypes)
+            }
+        },
+        operations: {
+            [`${componentKey(meta.name)}.receiveCommands`]: {
+                action: 'receive',
+                channel: { $ref: `#/channels/${channels.commands}` },
+                messages: operationMessages(channels.commands, cmdTypes)
+            },
+            [`${componentKey(meta.name)}.sendEvents`]: {
+                action: 'send',
+                channel: { $ref: `#/channels/${channels.events}` },
+                messages: operationMessages(channels.events, evtTypes)
+            }
+        },
+        components: {
+            messages: Object.fromEntries([
+                ...meta.commands.map(c => [componentKey(c.type), message(c.type, c.schema, c.description)]),
+                ...meta.events.map(e => [componentKey(e.type), message(e.type, e.schema, e.emittedBy.length > 0 ? `Emitted by ${e.emittedBy.join(', ')}.` : undefined)])
+            ]),
+            schemas: {
+                Envelope: envelopeHeaders
+            }
+        }
+    };
+};
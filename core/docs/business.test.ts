@@ -0,0 +1,79 @@
+import { Type } from "@sinclair/typebox";
+import { documented } from "../constraints";
+import { CMD, EVT } from "../messages";
+import { ModuleMeta } from "../module";
+import { fail, succeed } from "../result";
+import { composeWf, CoreWf } from "../workflows";
+import { businessDoc, mermaidFlow } from "./business";
+
+type ToDo = { _tag: 'none' | 'open' };
+type CreateToDo = CMD<'create-todo', { title: string }>;
+type ToDoCreated = EVT<'todo-created', { title: string }>;
+type CreateToDoWf = CoreWf<'create-todo', CreateToDo, ToDo, ToDoCreated, ToDo, 'already_created'>;
+
+const isNew: CreateToDoWf['constrain'] = () => (state) => state._tag === 'none' ? succeed(state) : fail('already_created');
+const decide: CreateToDoWf['decide'] = (cmd) => () => succeed([{ ...cmd, msgType: 'evt', type: 'todo-created' }]);
+const notCreated = documented<'already_created'>({ name: 'not-created', description: 'A to-do is created once | only once.', fails: ['already_created'] })(isNew);
+const create = documented({ name: 'create', description: 'Records the new to-do.' })(decide);
+const createToDoWf = composeWf<CreateToDoWf>(succeed)([notCreated])(create)(succeed);
+
+const meta: ModuleMeta = {
+    name: 'todo',
+    description: 'Keeps track of things to do.',
+    commands: [
+        { type: 'create-todo', emits: ['todo-created'], description: 'Creates a to-do.', schema: Type.Object({}), workflow: createToDoWf.doc },
+        { type: 'archive-todo', emits: [], schema: Type.Object({}) }
+    ],
+    events: [{ type: 'todo-created', emittedBy: ['create-todo'], triggers: ['notify-owner'], schema: Type.Object({}) }],
+    policies: [{ name: 'notify-owner', on: 'todo-created', emits: ['send-email'] }],
+    state: Type.Object({})
+};
+
+describe('businessDoc', () => {
+    const doc = businessDoc(meta);
+
+    it('catalogs the commands and events', () => {
+        expect(doc).toContain('# todo\n\nKeeps track of things to do.\n');
+        expect(doc).toContain('| `create-todo` | Creates a to-do. | `todo-created` |');
+        expect(doc).toContain('| `archive-todo` |  | — |');
+        expect(doc).toContain('| `todo-created` | `create-todo` | `notify-owner` |');
+    });
+
+    it('lists the documented rules of each workflow with their failure codes', () => {
+        expect(doc).toContain([
+            '### create-todo',
+            '',
+            'Creates a to-do.',
+            '',
+            '| # | Rule | Description | Failure codes |',
+            '| --- | --- | --- | --- |',
+            '| 1 | `not-created` | A to-do is created once \\| only once. | `already_created` |',
+            '| decide | `create` | Records the new to-do. | — |'
+        ].join('\n'));
+        expect(doc).toContain('### archive-todo\n\n_No rule documentation available._');
+    });
+
+    it('records the documented name on the causes of the rule', () => {
+        const toDo: CreateToDo = { id: 'cmd-1', msgType: 'cmd', type: 'create-todo', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { title: 'milk' } };
+
+        expect(createToDoWf.decide(toDo)({ _tag: 'open' })).toMatchObject({ outcome: 'failure', cause: [{ msg: 'already_created', constraint: 'not-created' }] });
+    });
+});
+
+describe('mermaidFlow', () => {
+    it('links commands to events, events to policies, and policies to the commands they issue', () => {
+        expect(mermaidFlow(meta)).toEqual([
+            '```mermaid',
+            'flowchart LR',
+            '    cmd_create_todo["create-todo"]',
+            '    cmd_archive_todo["archive-todo"]',
+            '    cmd_send_email["send-email"]',
+            '    evt_todo_created(["todo-created"])',
+            '    policy_notify_owner{{"notify-owner"}}',
+            '    cmd_create_todo --> evt_todo_created',
+            '    evt_todo_created --> policy_notify_owner',
+            '    policy_notify_owner --> cmd_send_email',
+            '```'
+        ]);
+    });
+});
@@ -0,0 +1,115 @@
+import { FnDoc } from "../constraints";
+import { ModuleMeta } from "../module";
+
+/**
+ * Escapes a value for a Markdown table cell.
+ * @param {string} s - The value.
+ * @returns {string} The escaped value.
+ */
+const cell = (s: string | undefined): string => (s ?? '').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+
+/**
+ * Formats a list of codes or types for a Markdown table cell.
+ * @param {string[]} items - The items.
+ * @returns {string} The cell content, `—` when empty.
+ */
+const list = (items: string[] | undefined): string => items && items.length > 0 ? items.map(i => `\`${cell(i)}\``).join(', ') : '—';
+
+/**
+ * Builds a Markdown table.
+ * @param {string[]} headers - The column headers.
+ * @param {string[][]} rows - The rows, already escaped.
+ * @returns {string[]} The lines of the table.
+ */
+const table = (headers: string[], rows: string[][]): string[] => [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map(r => `| ${r.join(' | ')} |`)
+];
+
+/**
+ * Makes a Mermaid node ID from a kind and a name.
+ * @param {string} kind - The kind of node: `cmd`, `evt` or `policy`.
+ * @param {string} name - The name of the node.
+ * @returns {string} The node ID.
+ */
+const nodeId = (kind: string, name: string): string => `${kind}_${name.replace(/[^A-Za-z0-9_]/g, '_')}`;
+
+/**
+ * Builds the rules table of a workflow: one row per constraint, then the decide function.
+ * @param {FnDoc[]} constraints - The documentation of the constraints.
+ * @param {FnDoc} decide - The documentation of the decide function.
+ * @returns {string[]} The lines of the table.
+ */
+const rulesTable = (constraints: FnDoc[], decide: FnDoc): string[] => table(
+    ['#', 'Rule', 'Description', 'Failure codes'],
+    [
+        ...constraints.map((c, i) => [String(i + 1), `\`${cell(c.name)}\``, cell(c.description), list(c.fails)]),
+        ['decide', `\`${cell(decide.name)}\``, cell(decide.description), list(decide.fails)]
+    ]
+);
+
+/**
+ * Builds a Mermaid flowchart linking commands to the events they emit, events to the policies they trigger,
+ * and policies to the commands they issue.
+ * @param {ModuleMeta} meta - The module metadata.
+ * @returns {string[]} The lines of the diagram, fenced for Markdown.
+ */
+export const mermaidFlow = (meta: ModuleMeta): string[] => {
+    const cmdTypes = new Set([...meta.commands.map(c => c.type), ...meta.policies.flatMap(p => p.emits)]);
+    return [
+        '```mermaid',
+        'flowchart LR',
+        ...[...cmdTypes].map(type => `    ${nodeId('cmd', type)}["${type}"]`),
+        ...meta.events.map(e => `    ${nodeId('evt', e.type)}(["${e.type}"])`),
+        ...meta.policies.map(p => `    ${nodeId('policy', p.name)}{{"${p.name}"}}`),
+        ...meta.commands.flatMap(c => c.emits.map(evt => `    ${nodeId('cmd', c.type)} --> ${nodeId('evt', evt)}`)),
+        ...meta.policies.flatMap(p => [
+            `    ${nodeId('evt', p.on)} --> ${nodeId('policy', p.name)}`,
+            ...p.emits.map(cmd => `    ${nodeId('policy', p.name)} --> ${nodeId('cmd', cmd)}`)
+        ]),
+        '```'
+    ];
+};
+
+/**
+ * Generates the business documentation of a module as Markdown: a command catalog, an event catalog,
+ * the rules of each workflow with the failure codes they can raise, and a Mermaid flow of commands, events and policies.
+ * Rule names, descriptions and failure codes come from `documented` constraints and decide functions.
+ * @param {ModuleMeta} meta - The module metadata.
+ * @returns {string} The Markdown document.
+ */
+export const businessDoc = (meta: ModuleMeta): string => {
+    const lines = [
+        `# ${meta.name}`,
+        ...(meta.description ? ['', meta.description] : []),
+        '',
+        '## Commands',
+        '',
+        ...table(
+            ['Command', 'Description', 'Emits'],
+            meta.commands.map(c => [`\`${cell(c.type)}\``, cell(c.description), list(c.emits)])
+        ),
+        '',
+        '## Events',
+        '',
+        ...table(
+            ['Event', 'Emitted by', 'Triggers'],
+            meta.events.map(e => [`\`${cell(e.type)}\``, list(e.emittedBy), list(e.triggers)])
+        ),
+        '',
+        '## Workflows',
+        ...meta.commands.flatMap(c => [
+            '',
+            `### ${c.type}`,
+            ...(c.description ? ['', c.description] : []),
+            '',
+            ...(c.workflow ? rulesTable(c.workflow.constraints, c.workflow.decide) : ['_No rule documentation available._'])
+        ]),
+        '',
+        '## Flow',
+        '',
+        ...mermaidFlow(meta)
+    ];
+    return `${lines.join('\n')}\n`;
+};
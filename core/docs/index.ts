@@ -0,0 +1,3 @@
+export * from './yaml'
+export * from './asyncapi'
+export * from './business'
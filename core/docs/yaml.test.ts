@@ -0,0 +1,31 @@
+import { toYaml } from "./yaml";
+
+describe('toYaml', () => {
+    it('serialises nested objects and arrays in block style', () => {
+        const yaml = toYaml({ asyncapi: '3.0.0', info: { title: 'todo', version: 1 }, tags: ['a', { name: 'b', deprecated: false }], empty: [], none: {}, skipped: undefined });
+
+        expect(yaml).toBe([
+            'asyncapi: "3.0.0"',
+            'info:',
+            '  title: todo',
+            '  version: 1',
+            'tags:',
+            '  - a',
+            '  - name: b',
+            '    deprecated: false',
+            'empty: []',
+            'none: {}',
+            ''
+        ].join('\n'));
+    });
+
+    it('quotes strings that would read as another type or break the syntax', () => {
+        expect(toYaml({ yes: 'no', ref: '#/components/schemas/Envelope', text: 'a: b', nothing: null })).toBe([
+            '"yes": "no"',
+            'ref: "#/components/schemas/Envelope"',
+            'text: "a: b"',
+            'nothing: null',
+            ''
+        ].join('\n'));
+    });
+});
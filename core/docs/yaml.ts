@@ -0,0 +1,74 @@
+/**
+ * YAML 1.1 scalars that a plain string must not be mistaken for.
+ */
+const reserved = /^(~|null|true|false|yes|no|on|off|y|n)$/i;
+
+/**
+ * Formats a string or key as a YAML scalar: plain when unambiguous, double-quoted (JSON escapes) otherwise.
+ * @param {string} s - The string.
+ * @returns {string} The scalar.
+ */
+const scalar = (s: string): string =>
+    /^[A-Za-z_$][\w$.\/-]*( [\w$.\/()-]+)*$/.test(s) && !reserved.test(s) ? s : JSON.stringify(s);
+
+/**
+ * Formats a leaf value, or returns `undefined` for objects and arrays with content.
+ * @param {unknown} value - The value.
+ * @returns {string | undefined} The formatted leaf.
+ */
+const leaf = (value: unknown): string | undefined => {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (typeof value === 'string') {
+        return scalar(value);
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    if (Array.isArray(value) && value.length === 0) {
+        return '[]';
+    }
+    if (typeof value === 'object' && Object.keys(value).length === 0) {
+        return '{}';
+    }
+    return undefined;
+};
+
+/**
+ * Formats the entries of an object or the items of an array, one per line, at the given indentation.
+ * @param {unknown} value - An object or array with content.
+ * @param {string} indent - The indentation of the lines.
+ * @returns {string[]} The lines.
+ */
+const lines = (value: unknown, indent: string): string[] => {
+    if (Array.isArray(value)) {
+        return value.flatMap(item => {
+            const l = leaf(item);
+            if (l !== undefined) {
+                return [`${indent}- ${l}`];
+            }
+            const [first, ...rest] = lines(item, `${indent}  `);
+            return [`${indent}- ${first.trimStart()}`, ...rest];
+        });
+    }
+    return Object.entries(value as object)
+        .filter(([, v]) => v !== undefined)
+        .flatMap(([k, v]) => {
+            const l = leaf(v);
+            return l !== undefined
+                ? [`${indent}${scalar(k)}: ${l}`]
+                : [`${indent}${scalar(k)}:`, ...lines(v, `${indent}  `)];
+        });
+};
+
+/**
+ * Serialises a JSON-compatible value (such as an AsyncAPI document) to YAML, in block style.
+ * Properties with an `undefined` value are left out, as `JSON.stringify` does.
+ * @param {unknown} value - The value.
+ * @returns {string} The YAML document.
+ */
+export const toYaml = (value: unknown): string => {
+    const l = leaf(value);
+    return `${l !== undefined ? l : lines(value, '').join('\n')}\n`;
+};
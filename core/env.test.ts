@@ -0,0 +1,34 @@
+import { seededIds, sequentialIds, virtualClock } from "./env";
+
+const take = (n: number, idGen: () => string) => Array.from({ length: n }, () => idGen());
+
+describe('sequentialIds', () => {
+    it('numbers the IDs from 1, after the prefix', () => {
+        expect(take(3, sequentialIds())).toEqual(['id-1', 'id-2', 'id-3']);
+        expect(take(2, sequentialIds('evt'))).toEqual(['evt-1', 'evt-2']);
+    });
+});
+
+describe('seededIds', () => {
+    it('yields the same UUID-shaped (v4) IDs for the same seed, and different ones for another seed', () => {
+        const ids = take(5, seededIds(42));
+
+        expect(take(5, seededIds(42))).toEqual(ids);
+        expect(new Set(ids).size).toBe(5);
+        ids.forEach(id => expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/));
+        expect(take(5, seededIds(43))).not.toEqual(ids);
+    });
+});
+
+describe('virtualClock', () => {
+    it('only moves when advanced or set', () => {
+        const clock = virtualClock(1000);
+        expect(clock.now()).toBe(1000);
+
+        expect(clock.advance(500)).toBe(1500);
+        expect(clock.now()).toBe(1500);
+
+        clock.set(0);
+        expect(clock.now()).toBe(0);
+    });
+});
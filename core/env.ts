@@ -0,0 +1,89 @@
+import { v4 as uuid } from "uuid";
+
+/**
+ * Returns the current time, in milliseconds since the epoch.
+ */
+export type Clock = () => number;
+
+/**
+ * Returns a new unique ID.
+ */
+export type IdGen = () => string;
+
+/**
+ * The nondeterministic inputs of message construction.
+ * @property {Clock} clock - Stamps the `timestamp` of messages.
+ * @property {IdGen} idGen - Generates message IDs and new correlation IDs.
+ */
+export type MsgEnv = {
+    clock: Clock;
+    idGen: IdGen;
+};
+
+/**
+ * The default environment: the system clock and random UUIDs (v4).
+ */
+export const defaultMsgEnv: MsgEnv = {
+    clock: () => Date.now(),
+    idGen: () => uuid()
+};
+
+/**
+ * Creates an ID generator returning `<prefix>-1`, `<prefix>-2`, ...
+ * @param {string} [prefix='id'] - The prefix of the IDs.
+ * @returns {IdGen} The ID generator.
+ */
+export const sequentialIds = (prefix: string = 'id'): IdGen => {
+    let n = 0;
+    return () => `${prefix}-${++n}`;
+};
+
+/**
+ * Creates an ID generator returning UUID-shaped (v4) IDs from a seeded pseudo-random sequence (mulberry32).
+ * The same seed always yields the same IDs, in the same order.
+ * @param {number} seed - The seed.
+ * @returns {IdGen} The ID generator.
+ */
+export const seededIds = (seed: number): IdGen => {
+    let state = seed >>> 0;
+    const nextByte = (): number => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) & 0xff;
+    };
+    return () => {
+        const bytes = Array.from({ length: 16 }, nextByte);
+        bytes[6] = (bytes[6] & 0x0f) | 0x40;
+        bytes[8] = (bytes[8] & 0x3f) | 0x80;
+        const hex = bytes.map(b => b.toString(16).padStart(2, '0')).join('');
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+    };
+};
+
+/**
+ * A clock that only moves when told to, for tests.
+ * @property {Clock} now - The clock to inject.
+ * @property advance - Moves the clock forward by `ms` milliseconds and returns the new time.
+ * @property set - Moves the clock to the given time.
+ */
+export type VirtualClock = {
+    now: Clock;
+    advance: (ms: number) => number;
+    set: (time: number) => void;
+};
+
+/**
+ * Creates a virtual clock.
+ * @param {number} [start=0] - The initial time, in milliseconds since the epoch.
+ * @returns {VirtualClock} The virtual clock.
+ */
+export const virtualClock = (start: number = 0): VirtualClock => {
+    let time = start;
+    return {
+        now: () => time,
+        advance: (ms) => (time += ms),
+        set: (t) => { time = t; }
+    };
+};
@@ -1,9 +1,17 @@
+export * from './env'
 export * from './messages'
+export * from './upcasting'
 export * from './parsing'
+export * from './codecs'
 export * from './result'
 export * from './workflows'
+export * from './invariants'
+export * from './constraints'
 export * from './module'
+export * from './docs'
 export * from './policies'
+export * from './sagas'
 export * from './aggregate'
-
-
+export * from './lifecycle'
+export * from './projections'
+export * from './testing'
@@ -0,0 +1,51 @@
+import { checkInvariants, Invariant, rehydrateChecked } from "./invariants";
+import { EVT } from "./messages";
+import { fail, succeed } from "./result";
+import { Evolve } from "./workflows";
+
+type Stock = { stored: number; shipped: number };
+type StockMoved = EVT<'stored', { kg: number }> | EVT<'shipped', { kg: number }>;
+
+const moved = (id: string, type: StockMoved['type'], kg: number): StockMoved =>
+    ({ id, msgType: 'evt', type, timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { kg } });
+const evolve: Evolve<StockMoved, Stock> = (evt) => (state) =>
+    evt.type === 'stored' ? { ...state, stored: state.stored + evt.data.kg } : { ...state, shipped: state.shipped + evt.data.kg };
+
+const shipsOnlyStoredStock: Invariant<Stock, 'overshipped'> = (state) =>
+    state.shipped <= state.stored ? succeed(state) : fail('overshipped', { missingKg: state.shipped - state.stored });
+const storesAtMostATon: Invariant<Stock, 'overstored'> = (state) =>
+    state.stored <= 1000 ? succeed(state) : fail('overstored');
+
+describe('checkInvariants', () => {
+    it('collects the violations of every invariant, named after it', () => {
+        const res = checkInvariants<Stock, 'overshipped' | 'overstored'>([shipsOnlyStoredStock, storesAtMostATon])({ stored: 1200, shipped: 1300 });
+
+        expect(res).toMatchObject({
+            outcome: 'failure',
+            cause: [{ msg: 'overshipped', constraint: 'shipsOnlyStoredStock' }, { msg: 'overstored', constraint: 'storesAtMostATon' }]
+        });
+    });
+});
+
+describe('rehydrateChecked', () => {
+    it('folds the events like rehydrate when every state holds', () => {
+        const res = rehydrateChecked(evolve, [shipsOnlyStoredStock])({ stored: 0, shipped: 0 })([moved('evt-1', 'stored', 10), moved('evt-2', 'shipped', 10)]);
+
+        expect(res).toEqual({ outcome: 'success', data: { stored: 10, shipped: 10 } });
+    });
+
+    it('stops at the first event breaking an invariant, identifying it and its stream version', () => {
+        const events = [moved('evt-3', 'shipped', 5), moved('evt-4', 'shipped', 10), moved('evt-5', 'stored', 100)];
+
+        const res = rehydrateChecked(evolve, [shipsOnlyStoredStock])({ stored: 10, shipped: 0 }, 2)(events);
+
+        expect(res).toEqual({
+            outcome: 'failure',
+            cause: [{
+                msg: 'overshipped',
+                constraint: 'shipsOnlyStoredStock',
+                data: { evt: { id: 'evt-4', type: 'shipped' }, version: 4, data: { missingKg: 5 } }
+            }]
+        });
+    });
+});
@@ -0,0 +1,69 @@
+import { constrainName } from "./constraints";
+import { AnyEvt } from "./messages";
+import { Cause, failMany, isFailure, Result, succeed } from "./result";
+import { Evolve } from "./workflows";
+
+/**
+ * A business rule that must hold for every state of an aggregate, such as
+ * "shipped weight must equal stored weight". Unlike `validateOutputState`, it can span several fields.
+ * @template A The type of the state (the Aggregate).
+ * @template F The type of failure messages.
+ */
+export type Invariant<A, F extends string> = (state: A) => Result<A, F>;
+
+/**
+ * The data of a cause raised by an invariant: the event whose evolved state broke it.
+ * @property evt - The ID and type of the event.
+ * @property {number} version - The stream version of the event.
+ * @property [data] - The data of the original cause, if any.
+ */
+export type InvariantViolation = {
+    evt: { id: string; type: string };
+    version: number;
+    data?: unknown;
+};
+
+/**
+ * Checks every invariant against a state, collecting all violations.
+ * Causes record the name of the invariant that produced them in `constraint`.
+ * @template A The type of the state (the Aggregate).
+ * @template F The type of failure messages.
+ * @param {Invariant<A, F>[]} invariants - The invariants of the aggregate.
+ * @returns A function that takes a state and returns it when every invariant holds.
+ */
+export const checkInvariants = <A, F extends string>(invariants: Invariant<A, F>[]) => (state: A): Result<A, F> => {
+    const cause = invariants.flatMap((invariant, i) => {
+        const res = invariant(state);
+        return isFailure(res)
+            ? res.cause.map(c => ({ ...c, constraint: c.constraint ?? constrainName(invariant, i) }))
+            : [];
+    });
+    return cause.length > 0 ? failMany(cause) : succeed(state);
+};
+
+/**
+ * Rehydrates an aggregate like `rehydrate`, checking the invariants against every state produced by the evolve function.
+ * Stops at the first event that breaks an invariant; its causes identify that event and its stream version.
+ * @template E The type of the event.
+ * @template A The type of the state (the Aggregate).
+ * @template F The type of failure messages.
+ * @param {Evolve<E, A>} evolve - The evolve function.
+ * @param {Invariant<A, F>[]} invariants - The invariants of the aggregate.
+ * @returns A function that takes the initial state and the stream version it corresponds to, then the events, and returns the resulting state.
+ */
+export const rehydrateChecked = <E extends AnyEvt, A, F extends string>(evolve: Evolve<E, A>, invariants: Invariant<A, F>[]) =>
+    (initialState: A, fromVersion: number = 0) =>
+    (events: E[]): Result<A, F> => {
+        let state = initialState;
+        for (const [i, evt] of events.entries()) {
+            state = evolve(evt)(state);
+            const res = checkInvariants(invariants)(state);
+            if (isFailure(res)) {
+                return failMany(res.cause.map((c): Cause<F> => {
+                    const violation: InvariantViolation = { evt: { id: evt.id, type: evt.type }, version: fromVersion + i + 1, data: c.data };
+                    return { ...c, data: violation };
+                }));
+            }
+        }
+        return succeed(state);
+    };
@@ -0,0 +1,46 @@
+import { AGG } from "./aggregate";
+import { defineLifecycle, stateDiagram } from "./lifecycle";
+
+type ToDo = AGG<'draft', { title: string }> | AGG<'in-progress', { title: string }> | AGG<'done', { title: string }>;
+
+const todoLifecycle = defineLifecycle<ToDo>('draft')({
+    'start-todo': { from: ['draft'], to: ['in-progress'] },
+    'complete-todo': { from: ['draft', 'in-progress'], to: ['done'] }
+});
+
+const draft: ToDo = { _tag: 'draft', data: { title: 'Write tests' } };
+const inProgress: ToDo = { _tag: 'in-progress', data: { title: 'Write tests' } };
+const done: ToDo = { _tag: 'done', data: { title: 'Write tests' } };
+
+describe('defineLifecycle', () => {
+    it('accepts a command moving the aggregate along a declared transition', () => {
+        expect(todoLifecycle.check('start-todo')(draft)(inProgress)).toEqual({ outcome: 'success', data: inProgress });
+        expect(todoLifecycle.check('complete-todo')(inProgress)(done)).toEqual({ outcome: 'success', data: done });
+    });
+
+    it.each([
+        ['from a tag it does not declare', 'start-todo', done, inProgress],
+        ['to a tag it does not declare', 'start-todo', draft, done],
+        ['that is not declared at all', 'reopen-todo', done, draft]
+    ])('fails with illegal_transition for a command moving the aggregate %s', (_, cmdType, before, after) => {
+        expect(todoLifecycle.check(cmdType)(before)(after)).toMatchObject({
+            outcome: 'failure',
+            cause: [{ msg: 'illegal_transition', data: { command: cmdType, from: before._tag, to: after._tag } }]
+        });
+    });
+});
+
+describe('stateDiagram', () => {
+    it('draws one arrow per allowed transition, aliasing tags that are not valid state IDs', () => {
+        expect(stateDiagram(todoLifecycle)).toEqual([
+            '```mermaid',
+            'stateDiagram-v2',
+            '    state "in-progress" as in_progress',
+            '    [*] --> draft',
+            '    draft --> in_progress: start-todo',
+            '    draft --> done: complete-todo',
+            '    in_progress --> done: complete-todo',
+            '```'
+        ]);
+    });
+});
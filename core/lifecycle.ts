@@ -0,0 +1,123 @@
+import { AGG } from "./aggregate";
+import { fail, Result, succeed } from "./result";
+
+type _AnyAgg = AGG<string, any>;
+
+/**
+ * Type representing failure messages raised by lifecycle checks.
+ */
+export type LifecycleFails = 'illegal_transition';
+
+/**
+ * The `_tag` transitions a command may cause.
+ * @template Tag The tags of the aggregate.
+ * @property from - The tags the aggregate may have before the command.
+ * @property to - The tags the aggregate may have after the command.
+ */
+export type TransitionDecl<Tag extends string> = {
+    from: readonly Tag[];
+    to: readonly Tag[];
+};
+
+/**
+ * The allowed transitions of an aggregate, by command type.
+ * @template Tag The tags of the aggregate.
+ */
+export type Transitions<Tag extends string> = Record<string, TransitionDecl<Tag>>;
+
+/**
+ * The lifecycle of an aggregate: its initial tag and the transitions each command may cause.
+ * @template A The type of the state (the Aggregate), a union of `AGG`.
+ * @template T The declared transitions.
+ * @property check - Checks that a command moved the aggregate along an allowed transition; fails with `illegal_transition` otherwise.
+ */
+export type Lifecycle<A extends _AnyAgg, T extends Transitions<A['_tag']>> = {
+    initial: A['_tag'];
+    transitions: T;
+    check: (cmdType: string) => (before: A) => (after: A) => Result<A, LifecycleFails>;
+};
+
+type _AnyLifecycle = Lifecycle<any, Transitions<string>>;
+
+/**
+ * Details attached to an `illegal_transition` failure.
+ */
+export type IllegalTransition = {
+    command: string;
+    from: string;
+    to: string;
+};
+
+/**
+ * The shapes of the workflows a lifecycle allows: for each declared command, a workflow handling it
+ * whose input and output aggregates only have tags declared for that command.
+ * @template L The lifecycle type.
+ */
+export type AllowedTransition<L extends _AnyLifecycle> = {
+    [K in keyof L['transitions'] & string]: {
+        cmd: { type: K };
+        inputAg: { _tag: L['transitions'][K]['from'][number] };
+        outputAg: { _tag: L['transitions'][K]['to'][number] };
+    }
+}[keyof L['transitions'] & string];
+
+/**
+ * Checks a workflow against a lifecycle at compile time: declaring a workflow whose command isn't in the lifecycle,
+ * or whose `inputAg`/`outputAg` tags aren't allowed for its command, is a type error.
+ * @template L The lifecycle type, e.g. `typeof wasteLifecycle`.
+ * @template W The workflow type.
+ * @example type ShipWf = LifecycleWf<typeof wasteLifecycle, CoreWf<'ship', ShipCmd, Stored, WasteShipped, Shipped, ShipFails>>
+ */
+export type LifecycleWf<L extends _AnyLifecycle, W extends AllowedTransition<L>> = W;
+
+/**
+ * Defines the lifecycle of an aggregate, listing the allowed `_tag` transitions per command type.
+ * Tags that aren't tags of the aggregate are a compile error.
+ * @template A The type of the state (the Aggregate), a union of `AGG`.
+ * @param {A['_tag']} initial - The tag of the initial state.
+ * @returns A function that takes the transitions by command type and returns the lifecycle.
+ */
+export const defineLifecycle = <A extends _AnyAgg>(initial: A['_tag']) =>
+    <const T extends Transitions<A['_tag']>>(transitions: T): Lifecycle<A, T> => {
+        const check: Lifecycle<A, T>['check'] = (cmdType) => (before) => (after) => {
+            const decl = transitions[cmdType];
+            if (!decl || !decl.from.includes(before._tag) || !decl.to.includes(after._tag)) {
+                const details: IllegalTransition = { command: cmdType, from: before._tag, to: after._tag };
+                return fail<LifecycleFails>('illegal_transition', details);
+            }
+            return succeed(after);
+        };
+
+        return {
+            initial,
+            transitions,
+            check
+        };
+    };
+
+/**
+ * Makes a Mermaid state ID from a tag.
+ * @param {string} tag - The tag.
+ * @returns {string} The state ID.
+ */
+const stateId = (tag: string): string => tag.replace(/[^A-Za-z0-9_]/g, '_');
+
+/**
+ * Draws a lifecycle as a Mermaid `stateDiagram-v2`, with one arrow per allowed transition, labelled with its command.
+ * @param {Lifecycle} lifecycle - The lifecycle.
+ * @returns {string[]} The lines of the diagram, fenced for Markdown.
+ */
+export const stateDiagram = (lifecycle: _AnyLifecycle): string[] => {
+    const decls = Object.entries(lifecycle.transitions);
+    const tags = new Set<string>([lifecycle.initial, ...decls.flatMap(([, d]) => [...d.from, ...d.to])]);
+    return [
+        '```mermaid',
+        'stateDiagram-v2',
+        ...[...tags].filter(tag => stateId(tag) !== tag).map(tag => `    state "${tag}" as ${stateId(tag)}`),
+        `    [*] --> ${stateId(lifecycle.initial)}`,
+        ...decls.flatMap(([cmdType, d]) =>
+            d.from.flatMap(from => d.to.map(to => `    ${stateId(from)} --> ${stateId(to)}: ${cmdType}`))
+        ),
+        '```'
+    ];
+};
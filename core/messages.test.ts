@@ -0,0 +1,29 @@
+import { Type } from "@sinclair/typebox";
+import { EVT } from "./__schema__";
+import { defaultMsgEnv } from "./env";
+import { AnyEvt, msgFactories, newEvt } from "./messages";
+import { Result } from "./result";
+import { upcasterRegistry } from "./upcasting";
+
+const ToDoCreatedV2 = EVT(Type.Literal('todo-created'), Type.Object({ title: Type.String(), priority: Type.String() }));
+const upcasters = upcasterRegistry([
+    { type: 'todo-created', from: 1, schema: ToDoCreatedV2, up: (data) => ({ ...data, priority: 'normal' }) }
+]);
+const parse = <T>(msg: T): Result<T, never> => ({ outcome: 'success', data: msg });
+const dt = { correlationid: undefined, causationid: undefined };
+
+describe('message factories', () => {
+    it('leave schemaVersion unset by default', () => {
+        const res = newEvt(parse)('todo-created')(dt)({ title: 'milk' });
+        expect(res.outcome === 'success' && 'schemaVersion' in res.data).toBe(false);
+    });
+
+    it('stamp the latest version of the registry, so new events are not upcast again', () => {
+        const factories = msgFactories(defaultMsgEnv, upcasters.latest);
+        const res = factories.newEvt(parse)('todo-created')(dt)({ title: 'milk', priority: 'high' });
+        if (res.outcome !== 'success') throw new Error('expected a new event');
+
+        expect(res.data.schemaVersion).toBe(2);
+        expect(upcasters.upcast(res.data as AnyEvt)).toMatchObject({ outcome: 'success', data: { data: { title: 'milk', priority: 'high' } } });
+    });
+});
@@ -1,22 +1,24 @@
 import { SafeParse, SafeParseFails } from "./parsing";
 import { acceptRes, acceptResPartial, failWithRes, FnOrNothing, isFailure, resToFn, Result, fail } from "./result";
-import { v4 as uuid } from "uuid";
+import { defaultMsgEnv, MsgEnv } from "./env";
 
 /**
  * Represents the type of a message in the domain.
  */
-type MsgType = "cmd" | "evt";
+export type MsgType = "cmd" | "evt";
 
 /**
  * Generic message structure for domain events and commands.
  * @template M The type of message ('cmd' or 'evt').
  * @template T The specific type of command or event.
  * @template D The payload data associated with the message.
+ * `schemaVersion` is the version of the shape of `data`; messages without it are at version 1.
  */
-type Msg<M extends MsgType, T extends string, D> = {
+export type Msg<M extends MsgType, T extends string, D> = {
     id: string;
     msgType: M;
     type: T;
+    schemaVersion?: number;
     timestamp: number;
     correlationid: string;
     causationid: string | undefined;
@@ -37,6 +39,16 @@ export type CMD<T extends string, D> = Msg<"cmd", T, D>;
  */
 export type EVT<T extends string, D> = Msg<"evt", T, D>;
 
+/**
+ * Any domain command, whatever its type and payload.
+ */
+export type AnyCmd = CMD<string, any>;
+
+/**
+ * Any domain event, whatever its type and payload.
+ */
+export type AnyEvt = EVT<string, any>;
+
 /**
  * Represents the domain trace information for tracking causation and correlation of messages.
  */
@@ -56,32 +68,45 @@ type NewMsg = <M extends MsgType, T extends string, D>(
 ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => Msg<M, T, D>;
 
 /**
- * Creates a new message (command or event) with a unique ID and timestamp.
- * @template M The type of message ('cmd' or 'evt').
- * @template T The type of command or event.
- * @template D The payload data.
- * @returns A new message object.
+ * The schema version of messages created without an explicit one.
+ */
+export const defaultSchemaVersion = 1;
+
+/**
+ * Gives the schema version to stamp on new messages of a type, e.g. the `latest` version of an upcaster registry.
+ * `undefined` leaves `schemaVersion` unset, which reads as version 1.
+ */
+export type SchemaVersionOf = (type: string) => number | undefined;
+
+/**
+ * Returns a function that creates new messages (commands or events) with an ID and timestamp taken from the environment.
+ * @param {MsgEnv} env - The clock and ID generator.
+ * @param {SchemaVersionOf} versionOf - The schema version stamped on the messages, by type.
+ * @returns {NewMsg} The message factory.
  */
-const newMsg: NewMsg = <M extends MsgType, T extends string, D>(
+const newMsgWith = (env: MsgEnv) => (versionOf: SchemaVersionOf): NewMsg => <M extends MsgType, T extends string, D>(
     msgType: M
 ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => {
+    const schemaVersion = versionOf(type);
     return {
-        id: uuid(),
+        id: env.idGen(),
         msgType,
         type,
-        timestamp: Date.now(),
+        ...(schemaVersion === undefined ? {} : { schemaVersion }),
+        timestamp: env.clock(),
         ...domaintrace,
         data,
     };
 };
 
 /**
- * Cleans a domain trace by resetting correlation and causation IDs where necessary.
- * @param {DomainTrace} dt The domain trace to clean.
- * @returns A new cleaned domain trace object.
+ * Returns a function that cleans a domain trace by resetting correlation and causation IDs where necessary.
+ * New correlation IDs are taken from the environment.
+ * @param {MsgEnv} env - The clock and ID generator.
+ * @returns A function that takes the domain trace to clean and returns a new cleaned domain trace object.
  */
-const cleanDT = (dt: DomainTrace): DomainTrace => {
-    const newCorr = { correlationid: uuid() };
+const cleanDTWith = (env: MsgEnv) => (dt: DomainTrace): DomainTrace => {
+    const newCorr = { correlationid: env.idGen() };
     const newCaus = { causationid: undefined };
     const newDT: DomainTrace = { ...newCorr, ...newCaus };
 
@@ -124,13 +149,13 @@ type ParsedNewMesg = <M extends MsgType, T extends string, D>(
  * @template D The payload data.
  * @param {NewMsg} fn The function to generate a new message.
  * @param {M} msgType The message type ('cmd' or 'evt').
- * @param {typeof cleanDT} _cleanDT The function to clean the domain trace.
+ * @param {(dt: DomainTrace) => DomainTrace} _cleanDT The function to clean the domain trace.
  * @param {SafeParse<Msg<M, T, D>>} parseMsg The function to parse and validate the message.
  * @returns A parsed message result.
  */
 const parsedNewMsg: ParsedNewMesg = <M extends MsgType, T extends string, D>(
     fn: NewMsg
-) => (msgType: M) => (_cleanDT: typeof cleanDT) => (parseMsg: SafeParse<Msg<M, T, D>>) => 
+) => (msgType: M) => (_cleanDT: (dt: DomainTrace) => DomainTrace) => (parseMsg: SafeParse<Msg<M, T, D>>) => 
     (type: T) => (domaintrace: DomainTrace) => (data: D) => {
         const dt: DomainTrace = _cleanDT(domaintrace);
         const msg: Msg<M, T, D> = fn<M, T, D>(msgType)(type)(dt)(data);
@@ -146,19 +171,6 @@ type NewCmd = <T extends string, D>(
     parseCmd: SafeParse<CMD<T, D>>
 ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => Result<CMD<T, D>, SafeParseFails>;
 
-/**
- * Creates a new command message with validation.
- * @template T The type of command.
- * @template D The payload data.
- * @param {SafeParse<CMD<T, D>>} parseCmd The function to validate the command.
- * @returns A validated command message.
- */
-export const newCmd: NewCmd = <T extends string, D>(
-    parseCmd: SafeParse<CMD<T, D>>
-) => (type: T) => (domaintrace: DomainTrace) => (data: D) => {
-    return parsedNewMsg<"cmd", T, D>(newMsg)("cmd")(cleanDT)(parseCmd)(type)(domaintrace)(data);
-};
-
 /**
  * Function signature for creating a new event message.
  * @template T The type of event.
@@ -168,6 +180,65 @@ type NewEvt = <T extends string, D>(
     parseEvt: SafeParse<EVT<T, D>>
 ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => Result<EVT<T, D>, SafeParseFails>;
 
+/**
+ * The message factories bound to an environment.
+ * @property {NewCmd} newCmd - Creates a new command message with validation.
+ * @property {NewEvt} newEvt - Creates a new event message with validation.
+ * @property newVersionedCmd - Creates a new command message with validation, at the given schema version.
+ * @property newVersionedEvt - Creates a new event message with validation, at the given schema version.
+ */
+export type MsgFactories = {
+    newCmd: NewCmd;
+    newEvt: NewEvt;
+    newVersionedCmd: (schemaVersion: number) => NewCmd;
+    newVersionedEvt: (schemaVersion: number) => NewEvt;
+};
+
+/**
+ * Creates message factories that take their timestamps and IDs from the given environment,
+ * e.g. a virtual clock and sequential IDs for snapshot tests and replay comparison.
+ * `newCmd` and `newEvt` stamp the version given by `versionOf`; pass the `latest` of an upcaster registry
+ * so that new events are never mistaken for older versions and upcast on read.
+ * @param {MsgEnv} env - The clock and ID generator.
+ * @param {SchemaVersionOf} [versionOf] - The schema version of new messages by type, defaults to leaving it unset (version 1).
+ * @returns {MsgFactories} The message factories.
+ */
+export const msgFactories = (env: MsgEnv, versionOf: SchemaVersionOf = () => undefined): MsgFactories => {
+    const cleanDT = cleanDTWith(env);
+
+    const newVersionedCmd = (schemaVersion: number): NewCmd => <T extends string, D>(
+        parseCmd: SafeParse<CMD<T, D>>
+    ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => {
+        return parsedNewMsg<"cmd", T, D>(newMsgWith(env)(() => schemaVersion))("cmd")(cleanDT)(parseCmd)(type)(domaintrace)(data);
+    };
+
+    const newVersionedEvt = (schemaVersion: number): NewEvt => <T extends string, D>(
+        parseEvt: SafeParse<EVT<T, D>>
+    ) => (type: T) => (domaintrace: DomainTrace) => (data: D) => {
+        return parsedNewMsg<"evt", T, D>(newMsgWith(env)(() => schemaVersion))("evt")(cleanDT)(parseEvt)(type)(domaintrace)(data);
+    };
+
+    return {
+        newCmd: <T extends string, D>(parseCmd: SafeParse<CMD<T, D>>) => (type: T) => (domaintrace: DomainTrace) => (data: D) =>
+            parsedNewMsg<"cmd", T, D>(newMsgWith(env)(versionOf))("cmd")(cleanDT)(parseCmd)(type)(domaintrace)(data),
+        newEvt: <T extends string, D>(parseEvt: SafeParse<EVT<T, D>>) => (type: T) => (domaintrace: DomainTrace) => (data: D) =>
+            parsedNewMsg<"evt", T, D>(newMsgWith(env)(versionOf))("evt")(cleanDT)(parseEvt)(type)(domaintrace)(data),
+        newVersionedCmd,
+        newVersionedEvt
+    };
+};
+
+const defaultFactories = msgFactories(defaultMsgEnv);
+
+/**
+ * Creates a new command message with validation.
+ * @template T The type of command.
+ * @template D The payload data.
+ * @param {SafeParse<CMD<T, D>>} parseCmd The function to validate the command.
+ * @returns A validated command message.
+ */
+export const newCmd: NewCmd = defaultFactories.newCmd;
+
 /**
  * Creates a new event message with validation.
  * @template T The type of event.
@@ -175,8 +246,19 @@ type NewEvt = <T extends string, D>(
  * @param {SafeParse<EVT<T, D>>} parseEvt The function to validate the event.
  * @returns A validated event message.
  */
-export const newEvt: NewEvt = <T extends string, D>(
-    parseEvt: SafeParse<EVT<T, D>>
-) => (type: T) => (domaintrace: DomainTrace) => (data: D) => {
-    return parsedNewMsg<"evt", T, D>(newMsg)("evt")(cleanDT)(parseEvt)(type)(domaintrace)(data);
-};
+export const newEvt: NewEvt = defaultFactories.newEvt;
+
+/**
+ * Creates a new command message with validation, at the given schema version.
+ * @param {number} schemaVersion - The schema version of the command data.
+ * @returns {NewCmd} A command factory like `newCmd`.
+ */
+export const newVersionedCmd = defaultFactories.newVersionedCmd;
+
+/**
+ * Creates a new event message with validation, at the given schema version.
+ * Use it once an event type has upcasters, with the latest version of that type.
+ * @param {number} schemaVersion - The schema version of the event data.
+ * @returns {NewEvt} An event factory like `newEvt`.
+ */
+export const newVersionedEvt = defaultFactories.newVersionedEvt;
@@ -0,0 +1,74 @@
+import { Static, Type } from "@sinclair/typebox";
+import { CMD, EVT } from "./__schema__";
+import { AnyCmd } from "./messages";
+import { defineModule, Mod } from "./module";
+import { fail, succeed } from "./result";
+import { composeWf, CoreWf } from "./workflows";
+
+const CreateToDo = CMD(Type.Literal('create-todo'), Type.Object({ title: Type.String() }));
+type CreateToDo = Static<typeof CreateToDo>;
+const CompleteToDo = CMD(Type.Literal('complete-todo'), Type.Object({}));
+type CompleteToDo = Static<typeof CompleteToDo>;
+const ToDoCreated = EVT(Type.Literal('todo-created'), Type.Object({ title: Type.String() }));
+type ToDoCreated = Static<typeof ToDoCreated>;
+const ToDoCompleted = EVT(Type.Literal('todo-completed'), Type.Object({}));
+type ToDoCompleted = Static<typeof ToDoCompleted>;
+
+type ToDo = { _tag: 'none' | 'open' | 'done' };
+type CreateToDoWf = CoreWf<'create-todo', CreateToDo, ToDo, ToDoCreated, ToDo, 'already_created'>;
+type CompleteToDoWf = CoreWf<'complete-todo', CompleteToDo, ToDo, ToDoCompleted, ToDo, 'not_open'>;
+type ToDoMod = Mod<CreateToDo | CompleteToDo, ToDoCreated | ToDoCompleted, ToDo, 'already_created' | 'not_open'>;
+
+const notCreated: CreateToDoWf['constrain'] = () => (state) => state._tag === 'none' ? succeed(state) : fail('already_created');
+const isOpen: CompleteToDoWf['constrain'] = () => (state) => state._tag === 'open' ? succeed(state) : fail('not_open');
+const create: CreateToDoWf['decide'] = (cmd) => () => succeed([{ ...cmd, msgType: 'evt', type: 'todo-created' }]);
+const complete: CompleteToDoWf['decide'] = (cmd) => () => succeed([{ ...cmd, msgType: 'evt', type: 'todo-completed' }]);
+
+const toDoModule = defineModule<ToDoMod>('todo')({
+    description: 'Keeps track of things to do.',
+    workflows: {
+        'create-todo': { wf: composeWf<CreateToDoWf>(succeed)([notCreated])(create)(succeed), emits: ['todo-created'], description: 'Creates a to-do.' },
+        'complete-todo': { wf: composeWf<CompleteToDoWf>(succeed)([isOpen])(complete)(succeed), emits: ['todo-completed'] }
+    },
+    evolve: (evt) => () => ({ _tag: evt.type === 'todo-created' ? 'open' : 'done' }),
+    initialState: { _tag: 'none' },
+    schemas: {
+        cmds: { 'create-todo': CreateToDo, 'complete-todo': CompleteToDo },
+        evts: { 'todo-created': ToDoCreated, 'todo-completed': ToDoCompleted },
+        state: Type.Object({ _tag: Type.String() })
+    },
+    policies: [{ name: 'archive-completed', on: 'todo-completed', emits: ['archive-todo'], policy: () => () => fail('not_implemented') }]
+});
+
+const createToDo: CreateToDo = { id: 'cmd-1', msgType: 'cmd', type: 'create-todo', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { title: 'milk' } };
+
+describe('defineModule', () => {
+    it('dispatches a command to the workflow registered for its type', async () => {
+        expect(await toDoModule.dispatch(createToDo)({ _tag: 'none' })).toMatchObject({ outcome: 'success', data: [{ type: 'todo-created', data: { title: 'milk' } }] });
+        expect(await toDoModule.dispatch(createToDo)({ _tag: 'open' })).toMatchObject({ outcome: 'failure', cause: [{ msg: 'already_created' }] });
+    });
+
+    it.each(['constructor', 'toString', '__proto__'])('fails the inherited property name %s as an unknown command type', async (type) => {
+        const cmd: AnyCmd = { ...createToDo, type };
+
+        const res = await toDoModule.dispatch(cmd as ToDoMod['cmds'])({ _tag: 'none' });
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'invalid_command_type', data: { type } }] });
+    });
+
+    it('describes its commands, events and policies in the metadata', () => {
+        expect(toDoModule.meta).toMatchObject({
+            name: 'todo',
+            description: 'Keeps track of things to do.',
+            commands: [
+                { type: 'create-todo', emits: ['todo-created'], description: 'Creates a to-do.', schema: CreateToDo, workflow: { constraints: [{ name: 'notCreated' }], decide: { name: 'create' } } },
+                { type: 'complete-todo', emits: ['todo-completed'], workflow: { constraints: [{ name: 'isOpen' }] } }
+            ],
+            events: [
+                { type: 'todo-created', emittedBy: ['create-todo'], triggers: [] },
+                { type: 'todo-completed', emittedBy: ['complete-todo'], triggers: ['archive-completed'] }
+            ],
+            policies: [{ name: 'archive-completed', on: 'todo-completed', emits: ['archive-todo'] }]
+        });
+    });
+});
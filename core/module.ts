@@ -1,6 +1,169 @@
+import { TSchema } from "@sinclair/typebox";
+import { AnyCmd, AnyEvt } from "./messages";
+import { SafeParse } from "./parsing";
+import { AsyncResult, fail, Result } from "./result";
+import { Evolve, WfDoc } from "./workflows";
+
 export type Mod<C, E, S, F> = {
     cmds: C,
     evts: E,
     state: S,
     failures: F
-}
\ No newline at end of file
+}
+
+type _AnyMod = Mod<AnyCmd, AnyEvt, any, string>;
+
+/**
+ * Type representing failure messages raised by module dispatch itself.
+ */
+export type ModuleFails = 'invalid_command_type';
+
+/**
+ * A composed workflow as registered in a module, sync or async.
+ * @template C The type of the command it handles.
+ * @template A The type of the state (the Aggregate).
+ * @template E A union type of the events it can generate.
+ * @template F The type of failure messages.
+ */
+export type ModuleWf<C, A, E, F extends string> = {
+    decide: (c: C) => (s: A) => Result<E[], F> | AsyncResult<E[], F>;
+    validateOutputState: SafeParse<A>;
+    doc?: WfDoc;
+};
+
+/**
+ * The registration of a workflow in a module.
+ * @template M The module type.
+ * @template C The type of the command it handles.
+ * @property wf - The composed workflow, as returned by `composeWf` or `composeWfAsync`.
+ * @property emits - The event types the workflow can emit.
+ * @property {string} [description] - What the workflow does, for generated documentation.
+ */
+export type ModuleWfRegistration<M extends _AnyMod, C> = {
+    wf: ModuleWf<C, M['state'], M['evts'], M['failures']>;
+    emits: M['evts']['type'][];
+    description?: string;
+};
+
+/**
+ * One workflow registration per command type of the module. A missing command type is a compile error,
+ * like a missing case in an exhaustive `switch (cmd.type)`.
+ * @template M The module type.
+ */
+export type ModuleWorkflows<M extends _AnyMod> = {
+    [T in M['cmds']['type']]: ModuleWfRegistration<M, Extract<M['cmds'], { type: T }>>
+};
+
+/**
+ * A policy reacting to an event of the module.
+ * @template M The module type.
+ * @property {string} name - The name of the policy.
+ * @property on - The event type the policy reacts to.
+ * @property {string[]} emits - The command types the policy can produce, possibly of other modules.
+ * @property policy - The composed policy, as returned by `composePy` or `composePyAsync`.
+ */
+export type ModulePolicy<M extends _AnyMod> = {
+    name: string;
+    on: M['evts']['type'];
+    emits: string[];
+    policy: (e: any) => (s: any) => Result<AnyCmd, string> | AsyncResult<AnyCmd, string>;
+};
+
+/**
+ * The TypeBox schemas of a module: the full message schema of every command and event type
+ * (as built with `CMD` and `EVT` from `__schema__`), and the schema of the aggregate.
+ * @template M The module type.
+ */
+export type ModuleSchemas<M extends _AnyMod> = {
+    cmds: { [T in M['cmds']['type']]: TSchema };
+    evts: { [T in M['evts']['type']]: TSchema };
+    state: TSchema;
+};
+
+/**
+ * Everything needed to define a module.
+ * @template M The module type.
+ */
+export type ModuleDef<M extends _AnyMod> = {
+    workflows: ModuleWorkflows<M>;
+    evolve: Evolve<M['evts'], M['state']>;
+    initialState: M['state'];
+    schemas: ModuleSchemas<M>;
+    policies?: ModulePolicy<M>[];
+    description?: string;
+};
+
+/**
+ * Introspection metadata of a module, for tooling such as documentation and spec generators.
+ */
+export type ModuleMeta = {
+    name: string;
+    description?: string;
+    commands: { type: string; emits: string[]; description?: string; schema: TSchema; workflow?: WfDoc }[];
+    events: { type: string; emittedBy: string[]; triggers: string[]; schema: TSchema }[];
+    policies: { name: string; on: string; emits: string[] }[];
+    state: TSchema;
+};
+
+/**
+ * A defined module.
+ * @template M The module type.
+ * @property dispatch - Routes a command to the workflow registered for its type.
+ * @property meta - The introspection metadata.
+ */
+export type Module<M extends _AnyMod> = ModuleDef<M> & {
+    name: string;
+    dispatch: (cmd: M['cmds']) => (s: M['state']) => AsyncResult<M['evts'][], M['failures'] | ModuleFails>;
+    meta: ModuleMeta;
+};
+
+/**
+ * Builds the introspection metadata of a module.
+ * @template M The module type.
+ * @param {string} name - The name of the module.
+ * @param {ModuleDef<M>} def - The module definition.
+ * @returns {ModuleMeta} The metadata.
+ */
+const moduleMeta = <M extends _AnyMod>(name: string, def: ModuleDef<M>): ModuleMeta => {
+    const workflows = Object.entries(def.workflows) as [string, ModuleWfRegistration<M, any>][];
+    const policies = def.policies ?? [];
+    return {
+        name,
+        description: def.description,
+        commands: workflows.map(([type, r]) => ({ type, emits: r.emits, description: r.description, schema: def.schemas.cmds[type], workflow: r.wf.doc })),
+        events: (Object.entries(def.schemas.evts) as [string, TSchema][]).map(([type, schema]) => ({
+            type,
+            emittedBy: workflows.filter(([, r]) => r.emits.includes(type)).map(([cmdType]) => cmdType),
+            triggers: policies.filter(p => p.on === type).map(p => p.name),
+            schema
+        })),
+        policies: policies.map(p => ({ name: p.name, on: p.on, emits: p.emits })),
+        state: def.schemas.state
+    };
+};
+
+/**
+ * Defines a module: its workflows by command type, evolve function, policies and schemas.
+ * Replaces the hand-written `switch (cmd.type)` router with a type-safe `dispatch`.
+ * @template M The module type, e.g. `Mod<WasteCmd, WasteEvent, Waste, WasteWfFails>`.
+ * @param {string} name - The name of the module.
+ * @returns A function that takes the module definition and returns the module.
+ */
+export const defineModule = <M extends _AnyMod>(name: string) => (def: ModuleDef<M>): Module<M> => {
+    const workflows = def.workflows as Record<string, ModuleWfRegistration<M, any>>;
+
+    const dispatch: Module<M>['dispatch'] = (cmd) => async (s) => {
+        const registration = Object.hasOwn(workflows, cmd.type) ? workflows[cmd.type] : undefined;
+        if (!registration) {
+            return fail<ModuleFails>('invalid_command_type', { type: cmd.type });
+        }
+        return registration.wf.decide(cmd)(s);
+    };
+
+    return {
+        ...def,
+        name,
+        dispatch,
+        meta: moduleMeta(name, def)
+    };
+};
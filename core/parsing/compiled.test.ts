@@ -0,0 +1,26 @@
+import { Type } from '@sinclair/typebox'
+import { safeParseTBoxCompiled } from './compiled'
+import { safeParseTBox } from './typebox'
+
+const ToDo = Type.Object({
+    title: Type.String({ minLength: 1 }),
+    priority: Type.Union([Type.Literal('low'), Type.Literal('high')]),
+    tags: Type.Array(Type.String())
+})
+
+describe('safeParseTBoxCompiled', () => {
+    it.each([
+        ['a valid value', { title: 'milk', priority: 'low', tags: ['home'] }],
+        ['a value of the wrong types', { title: '', priority: 'urgent', tags: ['home', 1] }],
+        ['a value missing properties', { tags: [] }],
+        ['a value that is not an object', 'milk']
+    ])('returns the same result as safeParseTBox for %s', (_, value) => {
+        expect(safeParseTBoxCompiled<unknown>(ToDo)(value)).toEqual(safeParseTBox<unknown>(ToDo)(value))
+    })
+
+    it('lists every error as a parse_error cause', () => {
+        const res = safeParseTBoxCompiled<unknown>(ToDo)({ title: '', priority: 'low', tags: [1] })
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'parse_error', data: { path: '/title', received: '' } }, { msg: 'parse_error', data: { path: '/tags/0', received: 1 } }] })
+    })
+})
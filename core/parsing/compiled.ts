@@ -0,0 +1,37 @@
+import { TAnySchema } from '@sinclair/typebox'
+import { TypeCheck, TypeCompiler } from '@sinclair/typebox/compiler'
+import { failMany, Result, succeed } from '../result'
+import { SafeParseFails } from './safeparse'
+import { errorsToCauses, SafeParseTBox } from './typebox'
+
+/**
+ * Compiled checkers, cached per schema object.
+ */
+const checkers = new WeakMap<TAnySchema, TypeCheck<TAnySchema>>()
+
+/**
+ * Gets the compiled checker of a schema, compiling it on first use.
+ * @param {TAnySchema} schema - The schema to compile.
+ * @returns {TypeCheck<TAnySchema>} The compiled checker.
+ */
+const compiledChecker = (schema: TAnySchema): TypeCheck<TAnySchema> => {
+    const cached = checkers.get(schema)
+    if (cached) {
+        return cached
+    }
+    const checker = TypeCompiler.Compile(schema)
+    checkers.set(schema, checker)
+    return checker
+}
+
+/**
+ * A TypeBox based parser backed by a compiled checker, for hot paths such as replaying events.
+ * The checker is compiled once per schema, when the parser is created, and shared by every parser of that schema.
+ * Same contract as `safeParseTBox`: failures list every error as a `parse_error` cause, and no exception is thrown on the failure path.
+ */
+export const safeParseTBoxCompiled: SafeParseTBox = 
+    (schema: TAnySchema) => {
+        const checker = compiledChecker(schema)
+        return <T>(data: T): Result<T, SafeParseFails> =>
+            checker.Check(data) ? succeed(data) : failMany(errorsToCauses(checker.Errors(data)))
+    }
@@ -1,2 +1,3 @@
 export * from './safeparse'
 export * from './typebox'
+export * from './compiled'
@@ -1,4 +1,18 @@
 import { Result } from "../result";
 
 export type SafeParse<T> = (data: T) => Result<T, SafeParseFails>
-export type SafeParseFails = 'parse_error'
\ No newline at end of file
+export type SafeParseFails = 'parse_error'
+
+/**
+ * Describes one reason why a value failed to parse, attached as `data` to each `parse_error` cause.
+ * @property {string} path - The JSON pointer of the offending value, e.g. `/data/weight`. Empty for the root.
+ * @property {string} message - A human readable description of the error.
+ * @property {unknown} expected - The schema the value was expected to match.
+ * @property {unknown} received - The value that was received.
+ */
+export type ParseIssue = {
+    path: string
+    message: string
+    expected: unknown
+    received: unknown
+}
@@ -0,0 +1,58 @@
+import { Type } from '@sinclair/typebox'
+import { Result } from '../result'
+import { SafeParseFails } from './safeparse'
+import { safeParseTBox, safeParseTBoxWith } from './typebox'
+
+const ToDo = Type.Object({
+    title: Type.String(),
+    priority: Type.Number({ default: 1 }),
+    tags: Type.Array(Type.String())
+})
+type ToDo = { title: string, priority: number, tags: string[] }
+
+const failedPaths = (res: Result<unknown, SafeParseFails>): string[] =>
+    res.outcome === 'failure' ? [...new Set(res.cause.map(c => c.data.path))] : []
+
+describe('safeParseTBox', () => {
+    it('returns one parse_error cause per error, with its path, expected schema and received value', () => {
+        const res = safeParseTBox<unknown>(ToDo)({ title: 42, priority: 1, tags: ['home', false] })
+
+        expect(res).toMatchObject({
+            outcome: 'failure',
+            cause: [
+                { msg: 'parse_error', data: { path: '/title', expected: ToDo.properties.title, received: 42 } },
+                { msg: 'parse_error', data: { path: '/tags/1', expected: ToDo.properties.tags.items, received: false } }
+            ]
+        })
+    })
+
+    it('checks the input as is, without normalising it', () => {
+        const input = { title: 'milk', priority: '2', tags: [] }
+
+        expect(safeParseTBox<unknown>(ToDo)(input)).toMatchObject({ outcome: 'failure', cause: [{ data: { path: '/priority', received: '2' } }] })
+    })
+})
+
+describe('safeParseTBoxWith', () => {
+    it('removes undeclared properties with clean', () => {
+        const input = { title: 'milk', priority: 1, tags: [], extra: true }
+
+        expect(safeParseTBoxWith({ clean: true })<ToDo>(ToDo)(input)).toEqual({ outcome: 'success', data: { title: 'milk', priority: 1, tags: [] } })
+        expect(input).toHaveProperty('extra', true)
+    })
+
+    it('fills in missing values from the schema defaults with default', () => {
+        expect(safeParseTBoxWith({ default: true })<unknown>(ToDo)({ title: 'milk', tags: [] })).toEqual({ outcome: 'success', data: { title: 'milk', priority: 1, tags: [] } })
+        expect(failedPaths(safeParseTBox<unknown>(ToDo)({ title: 'milk', tags: [] }))).toEqual(['/priority'])
+    })
+
+    it('converts primitives to the expected type with convert', () => {
+        expect(safeParseTBoxWith({ convert: true })<unknown>(ToDo)({ title: 'milk', priority: '2', tags: [] })).toEqual({ outcome: 'success', data: { title: 'milk', priority: 2, tags: [] } })
+    })
+
+    it('still fails on what normalisation cannot fix', () => {
+        const parse = safeParseTBoxWith({ clean: true, default: true, convert: true })<unknown>(ToDo)
+
+        expect(failedPaths(parse({ priority: 'high', tags: [] }))).toEqual(['/title', '/priority'])
+    })
+})
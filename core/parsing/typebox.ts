@@ -1,17 +1,77 @@
 import { Type, TAnySchema, type Static } from '@sinclair/typebox'
-import { Value } from '@sinclair/typebox/value'
-import { fail, Result, succeed } from '../result'
-import { SafeParse } from './safeparse'
+import { Value, ValueError } from '@sinclair/typebox/value'
+import { Cause, fail, failMany, Result, succeed } from '../result'
+import { ParseIssue, SafeParse, SafeParseFails } from './safeparse'
 
 export type SafeParseTBox = <T>(schema: TAnySchema) => SafeParse<T>
 
-export const safeParseTBox: SafeParseTBox = 
+/**
+ * Opt-in normalisation steps applied, in this order, before the value is checked.
+ * With any of them enabled the parsed value is a normalised copy of the input, which is left untouched.
+ * @property {boolean} [clean] - Removes properties the schema doesn't declare (`Value.Clean`).
+ * @property {boolean} [default] - Fills in missing values that have a schema default (`Value.Default`).
+ * @property {boolean} [convert] - Converts primitives to the expected type, e.g. `"42"` to `42` (`Value.Convert`).
+ */
+export type SafeParseTBoxOptions = {
+    clean?: boolean
+    default?: boolean
+    convert?: boolean
+}
+
+/**
+ * Turns TypeBox value errors into `parse_error` causes, one per error.
+ * @param {Iterable<ValueError>} errors - The errors, as returned by `Value.Errors` or a compiled checker.
+ * @returns {Cause<SafeParseFails>[]} The causes, each carrying a `ParseIssue`.
+ */
+export const errorsToCauses = (errors: Iterable<ValueError>): Cause<SafeParseFails>[] =>
+    [...errors].map(e => {
+        const issue: ParseIssue = { path: e.path, message: e.message, expected: e.schema, received: e.value }
+        return { msg: 'parse_error', data: issue }
+    })
+
+/**
+ * Turns the TypeBox errors of a value into `parse_error` causes, one per error.
+ * @param {TAnySchema} schema - The schema the value was checked against.
+ * @param {unknown} value - The value that failed the check.
+ * @returns {Cause<SafeParseFails>[]} The causes, each carrying a `ParseIssue`.
+ */
+export const parseIssues = (schema: TAnySchema, value: unknown): Cause<SafeParseFails>[] =>
+    errorsToCauses(Value.Errors(schema, value))
+
+/**
+ * Applies the enabled normalisation steps to a copy of the value.
+ * @param {TAnySchema} schema - The schema to normalise against.
+ * @param {SafeParseTBoxOptions} options - The enabled steps.
+ * @returns A function that takes a value and returns its normalised copy.
+ */
+const normalise = (schema: TAnySchema, options: SafeParseTBoxOptions) => (data: unknown): unknown => {
+    if (!options.clean && !options.default && !options.convert) {
+        return data
+    }
+    const cleaned = options.clean ? Value.Clean(schema, Value.Clone(data)) : Value.Clone(data)
+    const defaulted = options.default ? Value.Default(schema, cleaned) : cleaned
+    return options.convert ? Value.Convert(schema, defaulted) : defaulted
+}
+
+/**
+ * Creates a TypeBox based parser with the given normalisation options.
+ * Failures list every error with its path, the expected schema and the received value.
+ * @param {SafeParseTBoxOptions} options - The normalisation steps to apply before checking.
+ * @returns {SafeParseTBox} The parser factory.
+ */
+export const safeParseTBoxWith = (options: SafeParseTBoxOptions): SafeParseTBox =>
     (schema: TAnySchema) => 
-    <T>(data: T) => {
+    <T>(data: T): Result<T, SafeParseFails> => {
         try{
-            Value.Assert(schema, data)
-            return succeed(data)
+            const value = normalise(schema, options)(data)
+            if (Value.Check(schema, value)) {
+                return succeed(value as T)
+            }
+            return failMany(parseIssues(schema, value))
         }catch(e){
-            return fail('parse_error', e)
+            const issue: ParseIssue = { path: '', message: e instanceof Error ? e.message : String(e), expected: schema, received: data }
+            return fail('parse_error', issue)
         }
-    }
\ No newline at end of file
+    }
+
+export const safeParseTBox: SafeParseTBox = safeParseTBoxWith({})
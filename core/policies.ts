@@ -1,5 +1,7 @@
 import { SafeParse, SafeParseFails } from "./parsing";
+import { applyConstrainsAsyncWith, applyConstrainsWith, ComposeOptions, defaultComposeOptions } from "./constraints";
 import { 
+    AsyncResult,
     acceptRes, 
     resToFn, 
     DoNothing, 
@@ -10,7 +12,9 @@ import {
     splitRes, 
     acceptResPartial, 
     succeed, 
-    fail 
+    fail,
+    flatMap,
+    pipe
 } from "./result";
 
 /**
@@ -54,6 +58,10 @@ export type CorePy<E, S, C, F extends string = CorePyFails> = {
     partialFn: PartialPy<S, C, F>;
     invariant: InvariantPy<E, S, F>;
     constrain: ConstrainPy<E, S, F>;
+    executeAsync: CorePyFnAsync<E, S, C, F>;
+    composeAsync: (e: E) => (s: S) => AsyncResult<C, F>;
+    invariantAsync: InvariantPyAsync<E, S, F>;
+    constrainAsync: ConstrainPyAsync<E, S, F>;
 };
 
 type _AnyCorePy = CorePy<any, any, any, string>;
@@ -75,47 +83,94 @@ export type InvariantPy<E, S, F extends string> = (evt: E) => (state: S) => Resu
 export type ConstrainPy<E, S, F extends string = never> = (evt: E) => (currState: S) => Result<S, F>;
 
 /**
- * Applies a set of constraint functions to a evt and state, returning the first failure encountered.
+ * A policy function that may need to look things up before producing a command.
+ * Synchronous policy functions are valid asynchronous ones.
+ * @template E The type of the event.
+ * @template S The type of the state.
+ * @template C The type of the command produced.
+ * @template F The type of failure messages.
+ */
+export type CorePyFnAsync<E, S, C, F extends string> = (e: E) => (s: S) => Result<C, F> | AsyncResult<C, F>;
+
+/**
+ * An invariant function that may need to look things up. Synchronous invariants are valid asynchronous ones.
  * @template E The type of the evt.
  * @template S The type of the state.
  * @template F The type of failure messages.
- * @param {ConstrainPy<E, S, F>[]} fns - An array of constraint functions.
- * @returns A function that applies the constraints sequentially.
  */
-const applyConstrainsPy = <E, S, F extends string>(fns: ConstrainPy<E, S, F>[]) => (evt: E) => (currState: S) => {
-    const acc = fns.reduce((acc: any, fn) => {
-        const res = fn(evt)(currState);
-        if (isFailure(res)) {
-            if (!acc.failedOnce) {
-                acc.failedOnce = true;
-                acc.res = res;
-            }
-        }
-        return acc;
-    }, { failedOnce: false, res: succeed(currState) });
+export type InvariantPyAsync<E, S, F extends string> = (evt: E) => (state: S) => Result<S, F> | AsyncResult<S, F>;
 
-    return acc.res as Result<S, F>;
-};
+/**
+ * A constraint function that may need to look things up. Synchronous constraints are valid asynchronous ones.
+ * @template E The type of the evt.
+ * @template S The type of the state.
+ * @template F The type of failure messages.
+ */
+export type ConstrainPyAsync<E, S, F extends string = never> = (evt: E) => (currState: S) => Result<S, F> | AsyncResult<S, F>;
 
 /**
  * Composes a policy by applying parsing, invariants, constraints, and transition functions sequentially.
+ * Constraints are applied following the options' strategy.
  * @template W The workflow type.
+ * @param {ComposeOptions} options - The compose options, e.g. `{ strategy: 'accumulate' }` to report every violated constraint.
  * @param {SafeParse<W['state']>} _parsing - The parsing function for state validation.
  * @param {W['invariant']} _invariants - The invariant function ensuring preconditions.
  * @param {W['constrain'][]} _constrains - A set of constraints to validate state changes.
  * @param {W['transition']} _transition - The transition function that executes the workflow.
  * @returns A function that executes the workflow step by step.
  */
-export const composePy = <P extends _AnyCorePy>
+export const composePyWith = (options: ComposeOptions) => <P extends _AnyCorePy>
     (_parsing: SafeParse<P['state']>) => 
     (_invariants: P['invariant']) => 
     (_constrains: P['constrain'][]) =>
     (_execute: P['execute']) => 
     (evt: P['evt']) => 
     (currState: P['state']): P['res'] => {
+        return pipe(
+            _parsing(currState),
+            flatMap(_invariants(evt)),
+            flatMap(applyConstrainsWith(options.strategy)(_constrains)(evt)),
+            flatMap(_execute(evt))
+        );
+    };
+
+/**
+ * Composes a policy whose constraints fail fast, stopping at the first failure.
+ * @template P The policy type.
+ */
+export const composePy = composePyWith(defaultComposeOptions);
+
+/**
+ * Composes an asynchronous policy with the given options. Invariants, constraints and the execute function can mix sync and async functions;
+ * constraints run concurrently, are applied following the options' strategy, and the pipeline short-circuits on failure like `composePyWith`.
+ * @template P The policy type.
+ * @param {ComposeOptions} options - The compose options, e.g. `{ strategy: 'accumulate' }` to report every violated constraint.
+ * @returns A function that takes the state parser, the invariants, the constraints and the execute function, and returns the composed policy.
+ */
+export const composePyAsyncWith = (options: ComposeOptions) => <P extends _AnyCorePy>
+    (_parsing: SafeParse<P['state']>) => 
+    (_invariants: P['invariantAsync']) => 
+    (_constrains: P['constrainAsync'][]) =>
+    (_execute: P['executeAsync']): P['composeAsync'] => 
+    (evt: P['evt']) => 
+    async (currState: P['state']): AsyncResult<P['cmd'], P['fails']> => {
         const parsingRes = _parsing(currState)
-        const invariantsRes = acceptRes(_invariants(evt))(parsingRes) as Result<P['state'], P['fails']>
-        const constrainsRes = acceptRes(applyConstrainsPy(_constrains)(evt))(invariantsRes) as Result<P['state'], P['fails']>
-        const executeRes = acceptRes(_execute(evt))(constrainsRes) as P['res']
-        return executeRes;
+        if (isFailure(parsingRes)) {
+            return parsingRes
+        }
+        const invariantsRes = await _invariants(evt)(parsingRes['data']) as Result<P['state'], P['fails']>
+        if (isFailure(invariantsRes)) {
+            return invariantsRes
+        }
+        const constrainsRes = await applyConstrainsAsyncWith(options.strategy)(_constrains)(evt)(invariantsRes['data']) as Result<P['state'], P['fails']>
+        if (isFailure(constrainsRes)) {
+            return constrainsRes
+        }
+        return await _execute(evt)(constrainsRes['data']) as P['res']
     };
+
+/**
+ * Composes an asynchronous policy whose constraints fail fast, returning the first failure in the order of the constraints.
+ * @template P The policy type.
+ */
+export const composePyAsync = composePyAsyncWith(defaultComposeOptions);
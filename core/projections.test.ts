@@ -0,0 +1,24 @@
+import { AnyEvt, EVT } from "./messages";
+import { defineProjection } from "./projections";
+
+type ToDoCreated = EVT<'todo-created', { title: string }>;
+type ToDoDone = EVT<'todo-done', {}>;
+
+const envelope = { id: 'evt-1', msgType: 'evt' as const, timestamp: 1, correlationid: 'corr-1', causationid: undefined };
+const toDoCreated = (title: string): ToDoCreated => ({ ...envelope, type: 'todo-created', data: { title } });
+const evtOfType = (type: string): AnyEvt => ({ ...envelope, type, data: {} });
+
+const openToDos = defineProjection<ToDoCreated | ToDoDone, string[]>('open-todos')([])({
+    'todo-created': (evt) => (view) => [...view, evt.data.title],
+    'todo-done': () => (view) => view.slice(1)
+});
+
+describe('defineProjection', () => {
+    it('applies the handler registered for the event type', () => {
+        expect(openToDos.project(toDoCreated('milk'))(['bread'])).toEqual(['bread', 'milk']);
+    });
+
+    it.each(['constructor', 'toString', '__proto__', 'other-event'])('leaves the view unchanged for the unhandled type %s', (type) => {
+        expect(openToDos.project(evtOfType(type))(['bread'])).toEqual(['bread']);
+    });
+});
@@ -0,0 +1,61 @@
+import { AnyEvt } from "./messages";
+
+/**
+ * Updates a view following one event.
+ * @template E The type of the event.
+ * @template V The type of the view.
+ */
+export type ProjectionHandler<E, V> = (evt: E) => (view: V) => V;
+
+/**
+ * One handler per event type of the union. A missing event type is a compile error,
+ * like a missing case in an exhaustive `switch (evt.type)`; use `ignoreEvt` for events that don't affect the view.
+ * @template E A union type of the events.
+ * @template V The type of the view.
+ */
+export type ProjectionHandlers<E extends AnyEvt, V> = {
+    [T in E['type']]: ProjectionHandler<Extract<E, { type: T }>, V>
+};
+
+/**
+ * A read model built from events.
+ * @template E A union type of the events.
+ * @template V The type of the view.
+ * @property {string} name - The name of the projection, used to track its checkpoint and view.
+ * @property {V} initialView - The view before any event.
+ * @property {ProjectionHandlers<E, V>} handlers - The handlers, by event type.
+ * @property {ProjectionHandler<E, V>} project - Applies any event of the union; events of other types leave the view unchanged.
+ */
+export type Projection<E extends AnyEvt, V> = {
+    name: string;
+    initialView: V;
+    handlers: ProjectionHandlers<E, V>;
+    project: ProjectionHandler<AnyEvt, V>;
+};
+
+/**
+ * A handler for events that don't affect the view.
+ */
+export const ignoreEvt = <E, V>(evt: E) => (view: V): V => view;
+
+/**
+ * Defines a projection from pure handlers, one per event type of the union.
+ * @template E A union type of the events.
+ * @template V The type of the view.
+ * @param {string} name - The name of the projection.
+ * @returns A function that takes the initial view and the handlers, and returns the projection.
+ */
+export const defineProjection = <E extends AnyEvt, V>(name: string) =>
+    (initialView: V) =>
+    (handlers: ProjectionHandlers<E, V>): Projection<E, V> => {
+        const project: ProjectionHandler<AnyEvt, V> = (evt) => (view) => {
+            const handler = Object.hasOwn(handlers, evt.type) ? (handlers as Record<string, ProjectionHandler<AnyEvt, V>>)[evt.type] : undefined;
+            return handler ? handler(evt)(view) : view;
+        };
+        return {
+            name,
+            initialView,
+            handlers,
+            project
+        };
+    };
@@ -0,0 +1,71 @@
+import { all, combine, fail, Failure, flatMap, fromPromise, fromThrowable, map, match, orElse, pipe, Result, succeed } from "./result";
+
+const count: Result<number, 'not_a_number'> = succeed(1);
+const title: Result<string, 'empty_title'> = succeed('milk');
+const noCount: Result<number, 'not_a_number'> = fail('not_a_number', 'x');
+const noTitle: Result<string, 'empty_title'> = fail('empty_title');
+
+describe('combine', () => {
+    it('succeeds with the data of every result, keeping the type of each tuple position', () => {
+        const res: Result<[number, string], 'not_a_number' | 'empty_title'> = combine([count, title]);
+
+        expect(res).toEqual(succeed([1, 'milk']));
+    });
+
+    it('accumulates the causes of every failed result, in order', () => {
+        expect(combine([noCount, title, noTitle])).toEqual({ outcome: 'failure', cause: [{ msg: 'not_a_number', data: 'x' }, { msg: 'empty_title', data: undefined }] });
+    });
+
+    it('combines arrays, and is aliased as all', () => {
+        const res: Result<number[], 'not_a_number'> = all([count, count]);
+
+        expect(res).toEqual(succeed([1, 1]));
+        expect(all([])).toEqual(succeed([]));
+    });
+});
+
+describe('pipe', () => {
+    it('threads a value through the steps left to right, short-circuiting on failure', () => {
+        const double = (n: number): Result<number, 'too_big'> => n < 10 ? succeed(n * 2) : fail('too_big');
+
+        expect(pipe(count, flatMap(double), flatMap(double), map(n => `${n}`))).toEqual(succeed('4'));
+        expect(pipe(succeed(6), flatMap(double), flatMap(double), map(n => `${n}`))).toMatchObject({ outcome: 'failure', cause: [{ msg: 'too_big' }] });
+    });
+});
+
+describe('fromThrowable', () => {
+    it('returns the value of the function, or fails with the thrown error as data', () => {
+        const parseJson = fromThrowable('invalid_json')((json: string): unknown => JSON.parse(json));
+
+        expect(parseJson('{"a":1}')).toEqual(succeed({ a: 1 }));
+        expect(parseJson('{')).toMatchObject({ outcome: 'failure', cause: [{ msg: 'invalid_json', data: expect.any(SyntaxError) }] });
+    });
+});
+
+describe('fromPromise', () => {
+    it('resolves to the value of the promise, or fails with the rejection reason as data', async () => {
+        const reason = new Error('down');
+
+        expect(await fromPromise('io_error')(Promise.resolve(1))).toEqual(succeed(1));
+        expect(await fromPromise('io_error')(Promise.reject(reason))).toEqual({ outcome: 'failure', cause: [{ msg: 'io_error', data: reason }] });
+    });
+});
+
+describe('orElse', () => {
+    it('recovers from a failure and leaves successes untouched', () => {
+        const recover = orElse((_: Failure<'not_a_number'>) => succeed(0));
+
+        expect(recover(noCount)).toEqual(succeed(0));
+        expect(recover(count)).toEqual(succeed(1));
+        expect(orElse(() => fail('still_failing'))(noCount)).toMatchObject({ outcome: 'failure', cause: [{ msg: 'still_failing' }] });
+    });
+});
+
+describe('match', () => {
+    it('folds a success and a failure into one value', () => {
+        const summarize = match<number, 'not_a_number', string>({ success: (n) => `count ${n}`, failure: (cause) => cause.map(c => c.msg).join() });
+
+        expect(summarize(count)).toBe('count 1');
+        expect(summarize(noCount)).toBe('not_a_number');
+    });
+});
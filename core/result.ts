@@ -26,9 +26,10 @@ export type Failure<F extends string> = { outcome: 'failure'; cause: Cause<F>[]
 
 /**
  * Represents a failure cause.
+ * `constraint` names the constraint that produced the cause, when it comes from a constraint.
  * @template F The type of failure message.
  */
-export type Cause<F extends string> = { msg: F; data?: any };
+export type Cause<F extends string> = { msg: F; data?: any; constraint?: string };
 
 /**
  * Creates a failure result with a single cause.
@@ -76,18 +77,18 @@ export const succeed = <T>(data: T): Success<T> => {
  * @template T The type of success data.
  * @template F The type of failure message.
  * @param {Result<T, F>} res - The result to check.
- * @returns {boolean} True if the result is a failure, false otherwise.
+ * @returns {boolean} True if the result is a failure, false otherwise. Narrows the result to `Failure<F>`.
  */
-export const isFailure = <T, F extends string>(res: Result<T, F>): boolean => res?.outcome === 'failure';
+export const isFailure = <T, F extends string>(res: Result<T, F>): res is Failure<F> => res?.outcome === 'failure';
 
 /**
  * Checks if the given result represents a success.
  * @template T The type of success data.
  * @template F The type of failure message.
  * @param {Result<T, F>} res - The result to check.
- * @returns {boolean} True if the result is a success, false otherwise.
+ * @returns {boolean} True if the result is a success, false otherwise. Narrows the result to `Success<T>`.
  */
-export const isSuccess = <T, F extends string>(res: Result<T, F>): boolean => res?.outcome === 'success';
+export const isSuccess = <T, F extends string>(res: Result<T, F>): res is Success<T> => res?.outcome === 'success';
 
 /**
  * A function type that takes a function and applies it to a result if it's a success.
@@ -179,7 +180,7 @@ type ResToFn = <T extends Function, F extends string>(res: Result<T, F>) => T |
  */
 export const resToFn: ResToFn = <T extends Function, F extends string>(res: Result<T, F>) => {
     if (isFailure(res)) {
-        return doNothing<Result<T, F>>(res);
+        return doNothing<Failure<F>>(res);
     }
     return res['data'];
 };
@@ -204,3 +205,152 @@ export const splitRes: SplitRes = <T, F extends string>(res: Result<T, F>) => {
     }
     return res['data'];
 };
+
+/**
+ * Transforms the success data of a result, leaving failures untouched.
+ * @template T The type of success data.
+ * @template U The type of the transformed data.
+ * @param {(data: T) => U} fn - The transformation.
+ * @returns A function that takes a result and returns the transformed result.
+ */
+export const map = <T, U>(fn: (data: T) => U) => <F extends string>(res: Result<T, F>): Result<U, F> =>
+    isFailure(res) ? res : succeed(fn(res.data));
+
+/**
+ * Chains a step that can fail onto the success data of a result, leaving failures untouched.
+ * @template T The type of success data.
+ * @template U The type of success data of the next step.
+ * @template F2 The type of failure message of the next step.
+ * @param {(data: T) => Result<U, F2>} fn - The next step.
+ * @returns A function that takes a result and returns the result of the next step.
+ */
+export const flatMap = <T, U, F2 extends string>(fn: (data: T) => Result<U, F2>) => <F extends string>(res: Result<T, F>): Result<U, F | F2> =>
+    isFailure(res) ? res : fn(res.data);
+
+/**
+ * Transforms each failure cause of a result, leaving successes untouched.
+ * @template F The type of failure message.
+ * @template F2 The type of the transformed failure message.
+ * @param {(cause: Cause<F>) => Cause<F2>} fn - The transformation of a single cause.
+ * @returns A function that takes a result and returns the result with transformed causes.
+ */
+export const mapError = <F extends string, F2 extends string>(fn: (cause: Cause<F>) => Cause<F2>) => <T>(res: Result<T, F>): Result<T, F2> =>
+    isFailure(res) ? failMany(res.cause.map(fn)) : res;
+
+/**
+ * Runs a side effect on the success data of a result, and returns the result unchanged.
+ * @template T The type of success data.
+ * @param {(data: T) => void} fn - The side effect.
+ * @returns A function that takes a result and returns it unchanged.
+ */
+export const tap = <T>(fn: (data: T) => void) => <F extends string>(res: Result<T, F>): Result<T, F> => {
+    if (isSuccess(res)) {
+        fn(res.data);
+    }
+    return res;
+};
+
+/**
+ * Recovers from a failure with a step that can itself fail, leaving successes untouched.
+ * @template F The type of failure message.
+ * @template U The type of success data of the recovery.
+ * @template F2 The type of failure message of the recovery.
+ * @param {(failure: Failure<F>) => Result<U, F2>} fn - The recovery.
+ * @returns A function that takes a result and returns it, or the result of the recovery if it failed.
+ */
+export const orElse = <F extends string, U, F2 extends string>(fn: (failure: Failure<F>) => Result<U, F2>) => <T>(res: Result<T, F>): Result<T | U, F2> =>
+    isFailure(res) ? fn(res) : res;
+
+/**
+ * Folds a result into a single value.
+ * @template T The type of success data.
+ * @template F The type of failure message.
+ * @template R The type of the folded value.
+ * @param handlers - The functions to apply to the success data and to the failure causes.
+ * @returns A function that takes a result and returns the folded value.
+ */
+export const match = <T, F extends string, R>(handlers: { success: (data: T) => R; failure: (cause: Cause<F>[]) => R }) => (res: Result<T, F>): R =>
+    isFailure(res) ? handlers.failure(res.cause) : handlers.success(res.data);
+
+/**
+ * The success data type of a result.
+ */
+export type SuccessOf<R> = R extends Success<infer T> ? T : never;
+
+/**
+ * The failure message type of a result.
+ */
+export type FailureOf<R> = R extends Failure<infer F> ? F : never;
+
+/**
+ * Combines several results into one. Succeeds with the data of every result, in order,
+ * or fails with the causes of every failed result, accumulated.
+ * Works on tuples, keeping the type of each position, as well as on arrays.
+ * @template R The tuple or array of results.
+ * @param {R} results - The results to combine.
+ * @returns The combined result.
+ */
+export const combine = <R extends readonly Result<any, string>[]>(
+    results: [...R]
+): Result<{ [K in keyof R]: SuccessOf<R[K]> }, FailureOf<R[number]>> => {
+    const cause = results.flatMap(res => isFailure(res) ? res.cause : []);
+    if (cause.length > 0) {
+        return failMany(cause) as Failure<FailureOf<R[number]>>;
+    }
+    return succeed(results.map(res => (res as Success<unknown>).data) as { [K in keyof R]: SuccessOf<R[K]> });
+};
+
+/**
+ * Alias of `combine`.
+ */
+export const all = combine;
+
+/**
+ * Wraps a function that may throw into one that returns a result, failing with the given message and the thrown error as data.
+ * @template F The type of failure message.
+ * @param {F} msg - The failure message used when the function throws.
+ * @returns A function that takes the throwing function and returns its safe version.
+ */
+export const fromThrowable = <F extends string>(msg: F) => <A extends unknown[], T>(fn: (...args: A) => T) => (...args: A): Result<T, F> => {
+    try {
+        return succeed(fn(...args));
+    } catch (e) {
+        return fail(msg, e);
+    }
+};
+
+/**
+ * Turns a promise into an async result, failing with the given message and the rejection reason as data.
+ * @template F The type of failure message.
+ * @param {F} msg - The failure message used when the promise rejects.
+ * @returns A function that takes the promise and returns the async result.
+ */
+export const fromPromise = <F extends string>(msg: F) => async <T>(promise: Promise<T>): AsyncResult<T, F> => {
+    try {
+        return succeed(await promise);
+    } catch (e) {
+        return fail(msg, e);
+    }
+};
+
+/**
+ * A function type that pipes a value through a sequence of functions, inferring the type of every step.
+ */
+type Pipe = {
+    <A>(a: A): A;
+    <A, B>(a: A, ab: (a: A) => B): B;
+    <A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+    <A, B, C, D>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D;
+    <A, B, C, D, E>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): E;
+    <A, B, C, D, E, G>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, eg: (e: E) => G): G;
+    <A, B, C, D, E, G, H>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, eg: (e: E) => G, gh: (g: G) => H): H;
+    <A, B, C, D, E, G, H, I>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, eg: (e: E) => G, gh: (g: G) => H, hi: (h: H) => I): I;
+    <A, B, C, D, E, G, H, I, J>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, eg: (e: E) => G, gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J): J;
+};
+
+/**
+ * Pipes a value through a sequence of functions, left to right.
+ * Combined with `map`, `flatMap` and the other combinators, chains workflow steps without casts.
+ * @example pipe(parseState(s), flatMap(constrain(cmd)), flatMap(decide(cmd)))
+ */
+export const pipe: Pipe = (a: unknown, ...fns: Function[]) => fns.reduce((acc, fn) => fn(acc), a);
@@ -0,0 +1,117 @@
+import { AnyCmd, AnyEvt } from "./messages";
+import { isFailure, Result, succeed } from "./result";
+import { Evolve } from "./workflows";
+
+/**
+ * A command to send later, unless cancelled first, e.g. an escalation if nobody approves within 48 hours.
+ * Scheduling a key again replaces the previous command of the same key.
+ * @template C The type of the command.
+ * @property {string} key - Identifies the timer within the saga instance, to cancel or replace it.
+ * @property {number} delayMs - How long to wait, from the moment the event is handled.
+ * @property {C} cmd - The command to send.
+ */
+export type ScheduledCmd<C extends AnyCmd> = {
+    key: string;
+    delayMs: number;
+    cmd: C;
+};
+
+/**
+ * What a saga does in response to an event. Every part is optional.
+ * @template C The type of the commands.
+ * @property {C[]} [commands] - The commands to send now, in order.
+ * @property {ScheduledCmd<C>[]} [schedule] - The commands to send later.
+ * @property {string[]} [cancel] - The keys of the timers to cancel.
+ */
+export type SagaReaction<C extends AnyCmd> = {
+    commands?: C[];
+    schedule?: ScheduledCmd<C>[];
+    cancel?: string[];
+};
+
+/**
+ * The reaction of a saga that does nothing.
+ */
+export const noReaction: SagaReaction<never> = {};
+
+/**
+ * Decides the reaction of a saga to an event, given its state after the event.
+ * @template E The type of the event.
+ * @template S The type of the state of the saga.
+ * @template C The type of the commands.
+ * @template F The type of failure messages.
+ */
+export type SagaReact<E, S, C extends AnyCmd, F extends string> = (evt: E) => (state: S) => Result<SagaReaction<C>, F>;
+
+/**
+ * A long-running process (process manager): one instance per correlated group of events, with its own state,
+ * evolved by those events, sending commands now or later in response.
+ * @template E A union type of the events the saga handles.
+ * @template S The type of the state of the saga.
+ * @template C A union type of the commands the saga sends.
+ * @template F The type of failure messages.
+ * @property {string} name - The name of the saga, used to store its instances and timers.
+ * @property {E['type'][]} on - The event types the saga handles.
+ * @property correlate - Picks the instance an event belongs to, e.g. `(evt) => evt.data.shipmentId`.
+ * @property {S} initialState - The state of a new instance.
+ * @property {Evolve<E, S>} evolve - Evolves the state of an instance with an event.
+ * @property {SagaReact<E, S, C, F>} react - Decides the reaction to an event, given the evolved state.
+ * @property isDone - Whether an instance is complete: complete instances ignore later events and timers.
+ */
+export type Saga<E extends AnyEvt, S, C extends AnyCmd, F extends string = string> = {
+    name: string;
+    on: E['type'][];
+    correlate: (evt: E) => string;
+    initialState: S;
+    evolve: Evolve<E, S>;
+    react: SagaReact<E, S, C, F>;
+    isDone: (state: S) => boolean;
+};
+
+/**
+ * The outcome of one saga step: the evolved state, the reaction with every part present, and whether the instance is complete.
+ * @template S The type of the state of the saga.
+ * @template C The type of the commands.
+ */
+export type SagaStep<S, C extends AnyCmd> = {
+    state: S;
+    reaction: Required<SagaReaction<C>>;
+    done: boolean;
+};
+
+/**
+ * Defines a saga. Without `isDone`, instances never complete.
+ * @template E A union type of the events the saga handles.
+ * @template S The type of the state of the saga.
+ * @template C A union type of the commands the saga sends.
+ * @template F The type of failure messages.
+ * @param {string} name - The name of the saga.
+ * @returns A function that takes the definition of the saga and returns the saga.
+ */
+export const defineSaga = <E extends AnyEvt, S, C extends AnyCmd, F extends string = string>(name: string) =>
+    (definition: Omit<Saga<E, S, C, F>, 'name' | 'isDone'> & { isDone?: (state: S) => boolean }): Saga<E, S, C, F> => ({
+        ...definition,
+        name,
+        isDone: definition.isDone ?? (() => false)
+    });
+
+/**
+ * Runs one saga step, purely: evolves the state of an instance with an event, then decides the reaction.
+ * @template E A union type of the events the saga handles.
+ * @template S The type of the state of the saga.
+ * @template C A union type of the commands the saga sends.
+ * @template F The type of failure messages.
+ * @param {Saga<E, S, C, F>} saga - The saga.
+ * @returns A function that takes the current state of the instance, then an event, and returns the step.
+ */
+export const stepSaga = <E extends AnyEvt, S, C extends AnyCmd, F extends string>(saga: Saga<E, S, C, F>) =>
+    (state: S) =>
+    (evt: E): Result<SagaStep<S, C>, F> => {
+        const evolved = saga.evolve(evt)(state);
+        const reactRes = saga.react(evt)(evolved);
+        if (isFailure(reactRes)) {
+            return reactRes;
+        }
+        const { commands = [], schedule = [], cancel = [] } = reactRes.data;
+        return succeed({ state: evolved, reaction: { commands, schedule, cancel }, done: saga.isDone(evolved) });
+    };
@@ -4,6 +4,7 @@ type Msg<M extends MsgType, T extends string, D> = {
     id: string;
     msgType: M;
     type: T;
+    schemaVersion?: number;
     timestamp: number;
     correlationid: string;
     causationid: string | undefined;
@@ -0,0 +1,64 @@
+import { Cause } from "../result";
+
+/**
+ * Formats a value for a diff line.
+ * @param {unknown} value - The value to format.
+ * @returns {string} A compact, readable representation of the value.
+ */
+const show = (value: unknown): string => value === undefined ? 'undefined' : JSON.stringify(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+/**
+ * Lists the differences between two values, one line per differing path.
+ * @param {unknown} expected - The expected value.
+ * @param {unknown} actual - The actual value.
+ * @param {string} [path] - The path of the values being compared.
+ * @returns {string[]} The differences, empty if the values are deeply equal.
+ */
+export const diffValues = (expected: unknown, actual: unknown, path = ''): string[] => {
+    if (Array.isArray(expected) && Array.isArray(actual)) {
+        const length = Math.max(expected.length, actual.length);
+        return Array.from({ length }).flatMap((_, i) => {
+            const at = `${path}[${i}]`;
+            if (i >= actual.length) return [`${at}: missing, expected ${show(expected[i])}`];
+            if (i >= expected.length) return [`${at}: unexpected ${show(actual[i])}`];
+            return diffValues(expected[i], actual[i], at);
+        });
+    }
+    if (isObject(expected) && isObject(actual) && !Array.isArray(expected) && !Array.isArray(actual)) {
+        const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+        return keys.flatMap(key => diffValues(expected[key], actual[key], path ? `${path}.${key}` : key));
+    }
+    if (Object.is(expected, actual)) {
+        return [];
+    }
+    return [`${path || '(root)'}: expected ${show(expected)}, received ${show(actual)}`];
+};
+
+/**
+ * Formats failure causes, one line per cause.
+ * @template F The type of failure message.
+ * @param {Cause<F>[]} cause - The failure causes.
+ * @returns {string[]} The formatted causes.
+ */
+export const formatCauses = <F extends string>(cause: Cause<F>[]): string[] =>
+    cause.map(c => c.data === undefined ? `  ${c.msg}` : `  ${c.msg}: ${show(c.data)}`);
+
+/**
+ * Diffs the expected failure messages against the actual causes.
+ * Missing messages are prefixed with `-`, unexpected ones with `+`.
+ * @template F The type of failure message.
+ * @param {F[]} expected - The expected failure messages.
+ * @param {Cause<F>[]} actual - The actual failure causes.
+ * @returns {string[]} The diff lines, empty if every expected message is present and nothing else is.
+ */
+export const diffCauses = <F extends string>(expected: F[], actual: Cause<F>[]): string[] => {
+    const actualMsgs = actual.map(c => c.msg);
+    const missing = expected.filter(msg => !actualMsgs.includes(msg)).map(msg => `- ${msg}`);
+    const unexpected = actual
+        .filter(c => !expected.includes(c.msg))
+        .map(c => c.data === undefined ? `+ ${c.msg}` : `+ ${c.msg}: ${show(c.data)}`);
+    return [...missing, ...unexpected];
+};
@@ -0,0 +1,45 @@
+import { CMD, EVT } from "../messages";
+import { fail, succeed } from "../result";
+import { composeWf, CoreWf, Evolve } from "../workflows";
+import { scenario } from "./scenario";
+
+type ToDo = { _tag: 'open' | 'none'; title?: string };
+type CreateToDo = CMD<'create-todo', { title: string }>;
+type ToDoCreated = EVT<'todo-created', { title: string }>;
+type CreateToDoWf = CoreWf<'create-todo', CreateToDo, ToDo, ToDoCreated, ToDo, 'already_created' | 'empty_title'>;
+
+const envelope = { timestamp: 1, correlationid: 'corr-1', causationid: undefined };
+const createToDo = (title: string): CreateToDo => ({ ...envelope, id: 'cmd-1', msgType: 'cmd', type: 'create-todo', data: { title } });
+const toDoCreated = (title: string): ToDoCreated => ({ ...envelope, id: 'evt-1', msgType: 'evt', type: 'todo-created', data: { title } });
+
+const notCreated: CreateToDoWf['constrain'] = (cmd) => (state) => state._tag === 'none' ? succeed(state) : fail('already_created');
+const hasTitle: CreateToDoWf['constrain'] = (cmd) => (state) => cmd.data.title ? succeed(state) : fail('empty_title');
+const decide: CreateToDoWf['decide'] = (cmd) => () => succeed([{ ...toDoCreated(cmd.data.title), id: 'evt-2', timestamp: 2, schemaVersion: 1 }]);
+const evolve: Evolve<ToDoCreated, ToDo> = (evt) => () => ({ _tag: 'open', title: evt.data.title });
+
+const createToDoWf = composeWf<CreateToDoWf>(succeed)([notCreated, hasTitle])(decide)(succeed);
+const toDoScenario = () => scenario<CreateToDoWf>(createToDoWf, evolve, { _tag: 'none' });
+
+describe('scenario', () => {
+    it('passes when the emitted events match, ignoring volatile envelope fields', () => {
+        expect(() => toDoScenario().when(createToDo('milk')).then([toDoCreated('milk')])).not.toThrow();
+    });
+
+    it('fails with a diff when the emitted events differ', () => {
+        expect(() => toDoScenario().when(createToDo('milk')).then([toDoCreated('bread')]))
+            .toThrow('data.title: expected "bread", received "milk"');
+    });
+
+    it('passes when the workflow fails with the expected causes', () => {
+        expect(() => toDoScenario().given([toDoCreated('milk')]).when(createToDo('milk')).thenFails('already_created')).not.toThrow();
+    });
+
+    it('fails with a diff when the failure causes differ', () => {
+        expect(() => toDoScenario().when(createToDo('')).thenFails('already_created'))
+            .toThrow(/- already_created\n\s+\+ empty_title/);
+    });
+
+    it('fails when a failure is expected but the workflow succeeds', () => {
+        expect(() => toDoScenario().when(createToDo('milk')).thenFails('empty_title')).toThrow('but the workflow succeeded');
+    });
+});
@@ -0,0 +1,133 @@
+import { Cause, isFailure, Result, succeed } from "../result";
+import { CoreWf, Evolve, rehydrate } from "../workflows";
+import { Invariant, rehydrateChecked } from "../invariants";
+import { diffCauses, diffValues, formatCauses } from "./diff";
+
+type _AnyCoreWf = CoreWf<any, any, any, any, any, string>;
+
+/**
+ * Envelope fields generated by the message factories that change on every run, and are ignored when comparing events.
+ */
+export type VolatileEnvelopeKeys = 'id' | 'timestamp' | 'correlationid' | 'schemaVersion';
+
+/**
+ * An expected event: the event without its volatile envelope fields, which may still be given and are ignored.
+ * @template E The type of the event.
+ */
+export type ExpectedEvt<E> = E extends any
+    ? Omit<E, VolatileEnvelopeKeys> & Partial<Pick<E, VolatileEnvelopeKeys & keyof E>>
+    : never;
+
+/**
+ * The assertions available once the command of a scenario is known.
+ * @template W The workflow type.
+ */
+export type ScenarioThen<W extends _AnyCoreWf> = {
+    then: (expected: ExpectedEvt<W['evt']>[]) => W['evt'][];
+    thenFails: (...expected: W['fails'][]) => Cause<W['fails']>[];
+};
+
+/**
+ * The command step of a scenario.
+ * @template W The workflow type.
+ */
+export type ScenarioWhen<W extends _AnyCoreWf> = {
+    when: (cmd: W['cmd']) => ScenarioThen<W>;
+};
+
+/**
+ * A Given/When/Then scenario for a composed workflow.
+ * @template W The workflow type.
+ */
+export type Scenario<W extends _AnyCoreWf> = ScenarioWhen<W> & {
+    given: (history: W['evt'][] | W['aggregate']) => ScenarioWhen<W>;
+};
+
+/**
+ * Creates the error thrown when a scenario expectation is not met.
+ * Any test runner reports a thrown error as a failed test.
+ * @param {string} title - The summary of the unmet expectation.
+ * @param {string[]} lines - The details, usually a diff.
+ * @returns {Error} The error to throw.
+ */
+const scenarioError = (title: string, lines: string[]): Error => {
+    const error = new Error([title, ...lines].join('\n'));
+    error.name = 'ScenarioError';
+    return error;
+};
+
+/**
+ * Removes the volatile envelope fields of an event.
+ * @param {object} evt - The event.
+ * @returns The event without `id`, `timestamp`, `correlationid` and `schemaVersion`.
+ */
+const stripVolatile = ({ id, timestamp, correlationid, schemaVersion, ...rest }: Record<string, unknown>) => rest;
+
+/**
+ * Builds a Given/When/Then scenario for a composed workflow.
+ * The command goes through the same sequence as `handleCommand`: decide, evolve while checking the invariants, then `validateOutputState`.
+ * Expectations throw a `ScenarioError` with a readable diff, so scenarios run under any test runner.
+ * @template W The workflow type.
+ * @param {W['wf']} wf - The composed workflow.
+ * @param {Evolve<W['evt'], W['aggregate']>} evolve - The evolve function of the aggregate.
+ * @param {W['aggregate']} [initialState] - The state events are folded onto, and the state used when there is no `given`.
+ * @param {Invariant<W['aggregate'], W['fails']>[]} [invariants] - The invariants of the aggregate, checked after every new event.
+ * @returns {Scenario<W>} The scenario.
+ */
+export const scenario = <W extends _AnyCoreWf>(
+    wf: W['wf'],
+    evolve: Evolve<W['evt'], W['aggregate']>,
+    initialState?: W['aggregate'],
+    invariants: Invariant<W['aggregate'], W['fails']>[] = []
+): Scenario<W> => {
+    const from = (currState: W['aggregate']): ScenarioWhen<W> => ({
+        when: (cmd: W['cmd']) => {
+            const run = (): Result<W['evt'][], W['fails']> => {
+                const decideRes = wf.decide(cmd)(currState);
+                if (isFailure(decideRes)) {
+                    return decideRes;
+                }
+                const events: W['evt'][] = decideRes['data'];
+                const stateRes = rehydrateChecked(evolve, invariants)(currState)(events);
+                if (isFailure(stateRes)) {
+                    return stateRes;
+                }
+                const validateRes = wf.validateOutputState(stateRes.data);
+                return isFailure(validateRes) ? validateRes : succeed(events);
+            };
+
+            const then = (expected: ExpectedEvt<W['evt']>[]): W['evt'][] => {
+                const res = run();
+                if (isFailure(res)) {
+                    throw scenarioError('Expected events, but the workflow failed with:', formatCauses(res.cause));
+                }
+                const events: W['evt'][] = res['data'];
+                const diff = diffValues(expected.map(stripVolatile), events.map(stripVolatile));
+                if (diff.length > 0) {
+                    throw scenarioError('Emitted events differ from the expected ones:', diff.map(line => `  ${line}`));
+                }
+                return events;
+            };
+
+            const thenFails = (...expected: W['fails'][]): Cause<W['fails']>[] => {
+                const res = run();
+                if (!isFailure(res)) {
+                    throw scenarioError(`Expected failure ${expected.join(', ')}, but the workflow succeeded with:`, diffValues([], res['data'].map(stripVolatile)).map(line => `  ${line}`));
+                }
+                const cause = res.cause;
+                const diff = diffCauses(expected, cause);
+                if (diff.length > 0) {
+                    throw scenarioError('Failure causes differ from the expected ones:', diff.map(line => `  ${line}`));
+                }
+                return cause;
+            };
+
+            return { then, thenFails };
+        }
+    });
+
+    return {
+        ...from(initialState),
+        given: (history) => from(Array.isArray(history) ? rehydrate(evolve)(initialState)(history) : history)
+    };
+};
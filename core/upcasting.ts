@@ -0,0 +1,106 @@
+import { TSchema } from "@sinclair/typebox";
+import { AnyEvt, defaultSchemaVersion } from "./messages";
+import { safeParseTBoxCompiled, SafeParse } from "./parsing";
+import { fail, isFailure, Result, succeed } from "./result";
+
+/**
+ * Type representing possible failure messages when upcasting an event.
+ * - `schema_version_unsupported`: the event is newer than the latest version known for its type.
+ * - `upcast_step_missing`: there is no step from the event's version to the next one.
+ * - `upcast_step_failed`: a step threw while transforming the data.
+ * - `upcast_validation_failed`: the result of a step doesn't match the schema of its target version.
+ */
+export type UpcastFails =
+    | 'schema_version_unsupported'
+    | 'upcast_step_missing'
+    | 'upcast_step_failed'
+    | 'upcast_validation_failed';
+
+/**
+ * One upcasting step for an event type, from version `from` to version `from + 1`.
+ * @property {string} type - The event type.
+ * @property {number} from - The version the step upcasts from.
+ * @property {TSchema} schema - The full event schema of the target version, as built with `EVT`.
+ * @property up - Transforms the data of the event to the shape of the target version.
+ */
+export type UpcasterStep = {
+    type: string;
+    from: number;
+    schema: TSchema;
+    up: (data: any) => any;
+};
+
+/**
+ * The details attached to an upcasting failure.
+ */
+export type UpcastFailure = {
+    type: string;
+    id: string;
+    schemaVersion: number;
+    error?: unknown;
+};
+
+/**
+ * The upcasters of a set of event types.
+ * @property latest - The latest schema version of an event type; 1 for types without steps.
+ * @property upcast - Brings an event to the latest version of its type, step by step, validating every step.
+ */
+export type UpcasterRegistry = {
+    latest: (type: string) => number;
+    upcast: <E extends AnyEvt>(evt: E) => Result<E, UpcastFails>;
+};
+
+/**
+ * Creates an upcaster registry from its steps, chaining `v1 -> v2 -> v3` per event type.
+ * Every step's result is validated against the schema of its target version.
+ * @param {UpcasterStep[]} steps - The upcasting steps.
+ * @returns {UpcasterRegistry} The registry.
+ */
+export const upcasterRegistry = (steps: UpcasterStep[]): UpcasterRegistry => {
+    const byType = new Map<string, Map<number, { step: UpcasterStep; parse: SafeParse<AnyEvt> }>>();
+    for (const step of steps) {
+        const forType = byType.get(step.type) ?? new Map();
+        forType.set(step.from, { step, parse: safeParseTBoxCompiled<AnyEvt>(step.schema) });
+        byType.set(step.type, forType);
+    }
+
+    const latest: UpcasterRegistry['latest'] = (type) => {
+        const forType = byType.get(type);
+        return forType ? Math.max(...forType.keys()) + 1 : defaultSchemaVersion;
+    };
+
+    const upcast: UpcasterRegistry['upcast'] = <E extends AnyEvt>(evt: E) => {
+        const target = latest(evt.type);
+        let current: AnyEvt = evt;
+        let version = evt.schemaVersion ?? defaultSchemaVersion;
+        const details = (error?: unknown): UpcastFailure => ({ type: evt.type, id: evt.id, schemaVersion: version, error });
+
+        if (version > target) {
+            return fail<UpcastFails>('schema_version_unsupported', details());
+        }
+        while (version < target) {
+            const entry = byType.get(evt.type)?.get(version);
+            if (!entry) {
+                return fail<UpcastFails>('upcast_step_missing', details());
+            }
+            let next: AnyEvt;
+            try {
+                next = { ...current, schemaVersion: version + 1, data: entry.step.up(current.data) };
+            } catch (e) {
+                return fail<UpcastFails>('upcast_step_failed', details(e));
+            }
+            const parseRes = entry.parse(next);
+            if (isFailure(parseRes)) {
+                return fail<UpcastFails>('upcast_validation_failed', { ...details(), schemaVersion: version + 1, issues: parseRes.cause.map(c => c.data) });
+            }
+            current = next;
+            version = version + 1;
+        }
+        return succeed(current as E);
+    };
+
+    return {
+        latest,
+        upcast
+    };
+};
@@ -0,0 +1,48 @@
+import { Type } from "@sinclair/typebox";
+import { CMD, EVT } from "./messages";
+import { safeParseTBoxWith } from "./parsing";
+import { fail, succeed } from "./result";
+import { composeWfAsync, composeWfAsyncWith, CoreWf } from "./workflows";
+
+type Counter = { count: number };
+type Increment = CMD<'increment', {}>;
+type Incremented = EVT<'incremented', { count: number }>;
+type IncrementWf = CoreWf<'increment', Increment, Counter, Incremented, Counter, 'not_a_number'>;
+
+const parseCounter = safeParseTBoxWith({ convert: true })<Counter>(Type.Object({ count: Type.Number() }));
+const cmd: Increment = { id: 'cmd-1', msgType: 'cmd', type: 'increment', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} };
+
+describe('composeWfAsync', () => {
+    it('runs the constraints and decide on the parsed input state', async () => {
+        const isNumber: IncrementWf['constrainAsync'] = () => async (state) => typeof state.count === 'number' ? succeed(state) : fail('not_a_number');
+        const decide: IncrementWf['decideAsync'] = (c) => async (state) =>
+            succeed([{ ...c, msgType: 'evt', type: 'incremented', data: { count: state.count + 1 } } as Incremented]);
+        const wf = composeWfAsync<IncrementWf>(parseCounter)([isNumber])(decide)(parseCounter);
+
+        const res = await wf.decide(cmd)({ count: '1' } as unknown as Counter);
+
+        expect(res).toMatchObject({ outcome: 'success', data: [{ data: { count: 2 } }] });
+    });
+
+    it('records the constraint that produced each cause, and accumulates them on request', async () => {
+        const isPositive: IncrementWf['constrainAsync'] = () => async () => fail('not_a_number');
+        const isSmall: IncrementWf['constrainAsync'] = () => () => fail('not_a_number');
+        const decide: IncrementWf['decideAsync'] = () => () => succeed([]);
+
+        const failFast = await composeWfAsync<IncrementWf>(parseCounter)([isPositive, isSmall])(decide)(parseCounter).decide(cmd)({ count: 1 });
+        const accumulated = await composeWfAsyncWith({ strategy: 'accumulate' })<IncrementWf>(parseCounter)([isPositive, isSmall])(decide)(parseCounter).decide(cmd)({ count: 1 });
+
+        expect(failFast).toMatchObject({ outcome: 'failure', cause: [{ msg: 'not_a_number', constraint: 'isPositive' }] });
+        expect(accumulated).toMatchObject({ outcome: 'failure', cause: [{ constraint: 'isPositive' }, { constraint: 'isSmall' }] });
+    });
+
+    it('fails with constraint_error instead of rejecting when a constraint throws or rejects', async () => {
+        const isPositive: IncrementWf['constrainAsync'] = () => async () => { throw new Error('down'); };
+        const isSmall: IncrementWf['constrainAsync'] = () => () => { throw new Error('bug'); };
+        const decide: IncrementWf['decideAsync'] = () => () => succeed([]);
+
+        const res = await composeWfAsyncWith({ strategy: 'accumulate' })<IncrementWf>(parseCounter)([isPositive, isSmall])(decide)(parseCounter).decide(cmd)({ count: 1 });
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'constraint_error', constraint: 'isPositive' }, { msg: 'constraint_error', constraint: 'isSmall' }] });
+    });
+});
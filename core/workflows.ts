@@ -1,5 +1,8 @@
 import { SafeParse, SafeParseFails } from "./parsing";
+import { Invariant } from "./invariants";
+import { applyConstrainsAsyncWith, applyConstrainsWith, ComposeOptions, constrainDoc, defaultComposeOptions, FnDoc } from "./constraints";
 import { 
+    AsyncResult,
     acceptRes, 
     resToFn, 
     DoNothing, 
@@ -10,7 +13,9 @@ import {
     splitRes, 
     acceptResPartial, 
     succeed, 
-    fail 
+    fail,
+    flatMap,
+    pipe
 } from "./result";
 
 /**
@@ -37,9 +42,11 @@ export type CoreWf<N extends string, C, iA, E, oA, F extends string = CoreWfFail
     validateAggregate: SafeParse<iA | oA>
     constrain: Constrain<C, iA | oA, F>
     decide: Decide<C, iA | oA, E, F>
+    invariant: Invariant<iA | oA, F>
     wf: {
         decide: Decide<C, iA | oA, E, F>
         validateOutputState: SafeParse<iA | oA>
+        doc?: WfDoc
     }    
     compose: 
         (p: SafeParse<iA | oA>) =>
@@ -47,14 +54,43 @@ export type CoreWf<N extends string, C, iA, E, oA, F extends string = CoreWfFail
         (d: Decide<C, iA | oA, E, F>) => 
             {
                 decide: Decide<C, iA | oA, E, F>,
-                validateOutputState: SafeParse<iA | oA>
+                validateOutputState: SafeParse<iA | oA>,
+                doc?: WfDoc
             }
+    constrainAsync: AsyncConstrain<C, iA | oA, F>
+    decideAsync: AsyncDecide<C, iA | oA, E, F>
+    wfAsync: {
+        decide: (c: C) => (s: iA | oA) => AsyncResult<E[], F>
+        validateOutputState: SafeParse<iA | oA>
+        doc?: WfDoc
+    }
+};
+
+/**
+ * The business documentation of a composed workflow, gathered from its constraints and decide function.
+ * @property {FnDoc[]} constraints - The documentation of each constraint, in order.
+ * @property {FnDoc} decide - The documentation of the decide function.
+ */
+export type WfDoc = {
+    constraints: FnDoc[]
+    decide: FnDoc
 };
 
+/**
+ * Gathers the documentation of a workflow's constraints and decide function.
+ * @param {Function[]} constrains - The constraints.
+ * @param {Function} decide - The decide function.
+ * @returns {WfDoc} The documentation of the workflow.
+ */
+const wfDoc = (constrains: Function[], decide: Function): WfDoc => ({
+    constraints: constrains.map(constrainDoc),
+    decide: (decide as { doc?: FnDoc }).doc ?? { name: decide.name || 'decide' }
+});
+
 /**
  * A dummy Core Workflow to make it easier to build the associated types and functions
  */
-type _AnyCoreWf = CoreWf<any, any, any, any, string>;
+type _AnyCoreWf = CoreWf<any, any, any, any, any, string>;
 
 
 /**
@@ -83,43 +119,103 @@ export type Decide<C, iS, E, F extends string> = (c: C) => (s: iS) => Result<E[]
 export type Evolve<E, A> = (e: E) => (a: A) => A
 
 /**
- * Applies a set of constraint functions to a command and state, returning the first failure encountered.
+ * Represents a constraint that may need to look things up before validating, e.g. through an injected port.
+ * Synchronous constraints are valid asynchronous constraints.
  * @template C The type of the command.
  * @template S The type of the state.
  * @template F The type of failure messages.
- * @param {Constrain<C, S, F>[]} fns - An array of constraint functions.
- * @returns A function that applies the constraints sequentially.
  */
-const applyConstrains = <C, S, F extends string>(fns: Constrain<C, S, F>[]) => (cmd: C) => (currState: S) => {
-    const acc = fns.reduce((acc: any, fn) => {
-        const res = fn(cmd)(currState);
-        if (isFailure(res)) {
-            if (!acc.failedOnce) {
-                acc.failedOnce = true;
-                acc.res = res;
-            }
-        }
-        return acc;
-    }, { failedOnce: false, res: succeed(currState) });
+export type AsyncConstrain<C, S, F extends string = never> = (cmd: C) => (currState: S) => Result<S, F> | AsyncResult<S, F>;
 
-    return acc.res as Result<S, F>;
-};
+/**
+ * Represents a decision that may need to look things up before creating events.
+ * Synchronous decisions are valid asynchronous decisions.
+ * @template C The type of the command.
+ * @template iS The type of the initial state.
+ * @template E A union type of the events that can be generated.
+ * @template F The type of failure messages.
+ */
+export type AsyncDecide<C, iS, E, F extends string> = (c: C) => (s: iS) => Result<E[], F> | AsyncResult<E[], F>
 
-export const composeWf = <W extends _AnyCoreWf>
+/**
+ * Composes a workflow with the given options: validates the input state, applies the constraints
+ * following the options' strategy, then decides which events to create.
+ * @template W The workflow type.
+ * @param {ComposeOptions} options - The compose options, e.g. `{ strategy: 'accumulate' }` to report every violated constraint.
+ * @returns A function that takes the input state parser, the constraints, the decide function and the output state parser.
+ */
+export const composeWfWith = (options: ComposeOptions) => <W extends _AnyCoreWf>
     (_validateInputState: SafeParse<W['aggregate']>) => 
     (_constrains: W['constrain'][]) =>
     (_decide: W['decide']) => 
     (validateOutputState: SafeParse<W['aggregate']>): W['wf'] => {
         
         const decide: W['decide'] = (c: W['cmd']) => (s: W['aggregate']) => {
+            return pipe(
+                _validateInputState(s),
+                flatMap(applyConstrainsWith(options.strategy)(_constrains)(c)),
+                flatMap(_decide(c))
+            )
+        }
+
+        return {
+            decide,
+            validateOutputState,
+            doc: wfDoc(_constrains, _decide)
+        }
+    };
+
+/**
+ * Composes a workflow whose constraints fail fast, stopping at the first failure.
+ * @template W The workflow type.
+ */
+export const composeWf = composeWfWith(defaultComposeOptions);
+
+/**
+ * Composes an asynchronous workflow with the given options. Constraints and decide can mix sync and async functions;
+ * constraints run concurrently, are applied following the options' strategy, and the pipeline short-circuits on failure like `composeWfWith`.
+ * A constraint that throws or rejects fails with `constraint_error`.
+ * @template W The workflow type.
+ * @param {ComposeOptions} options - The compose options, e.g. `{ strategy: 'accumulate' }` to report every violated constraint.
+ * @returns A function that takes the input state parser, the constraints, the decide function and the output state parser.
+ */
+export const composeWfAsyncWith = (options: ComposeOptions) => <W extends _AnyCoreWf>
+    (_validateInputState: SafeParse<W['aggregate']>) => 
+    (_constrains: W['constrainAsync'][]) =>
+    (_decide: W['decideAsync']) => 
+    (validateOutputState: SafeParse<W['aggregate']>): W['wfAsync'] => {
+
+        const decide: W['wfAsync']['decide'] = (c: W['cmd']) => async (s: W['aggregate']) => {
             const parsingRes = _validateInputState(s)
-            const constrainsRes = acceptRes(applyConstrains(_constrains)(c))(parsingRes) as Result<W['aggregate'], W['fails']>
-            const decideRes = acceptRes(_decide(c))(constrainsRes) as Result<W['evt'][], W['fails']>
-            return decideRes
+            if (isFailure(parsingRes)) {
+                return parsingRes
+            }
+            const constrainsRes = await applyConstrainsAsyncWith(options.strategy)(_constrains)(c)(parsingRes['data']) as Result<W['aggregate'], W['fails']>
+            if (isFailure(constrainsRes)) {
+                return constrainsRes
+            }
+            return await _decide(c)(constrainsRes['data']) as Result<W['evt'][], W['fails']>
         }
 
         return {
             decide,
-            validateOutputState
+            validateOutputState,
+            doc: wfDoc(_constrains, _decide)
         }
     };
+
+/**
+ * Composes an asynchronous workflow whose constraints fail fast, returning the first failure in the order of the constraints.
+ * @template W The workflow type.
+ */
+export const composeWfAsync = composeWfAsyncWith(defaultComposeOptions);
+
+/**
+ * Rehydrates an aggregate by folding events through an evolve function.
+ * @template E The type of the event.
+ * @template A The type of the state (the Aggregate).
+ * @param {Evolve<E, A>} evolve - The evolve function.
+ * @returns A function that takes the initial state and the events, and returns the resulting state.
+ */
+export const rehydrate = <E, A>(evolve: Evolve<E, A>) => (initialState: A) => (events: E[]): A =>
+    events.reduce((state, evt) => evolve(evt)(state), initialState);
@@ -1,14 +0,0 @@
-module.exports = {
-  preset: 'ts-jest',
-  testEnvironment: 'node',
-  transform: {
-    '^.+\\.ts?$': 'ts-jest',
-  },
-  transformIgnorePatterns: ['/node_modules/'],
-  globals: {
-    'ts-jest': {
-      'useESM': true
-    }
-  },
-  extensionsToTreatAsEsm: ['.ts'], // if you are using TypeScript
-};
\ No newline at end of file
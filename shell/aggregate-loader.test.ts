@@ -0,0 +1,74 @@
+import { Type } from "@sinclair/typebox";
+import { EVT, safeParseTBoxWith, virtualClock } from "../core";
+import { loadAggregate, LoadedAggregate, snapshotIfDue, SnapshotCtx } from "./aggregate-loader";
+import { inMemoryEventStore } from "./event-store";
+import { inMemorySnapshotStore, Snapshot, SnapshotPolicy } from "./snapshots";
+
+type Counter = { count: number };
+type Incremented = EVT<'incremented', {}>;
+
+const incremented = (id: string): Incremented => ({ id, msgType: 'evt', type: 'incremented', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} });
+const parseCounter = safeParseTBoxWith({ convert: true })<Counter>(Type.Object({ count: Type.Number() }));
+const snapshotOf = (state: unknown, overrides: Partial<Snapshot<Counter>> = {}): Snapshot<Counter> =>
+    ({ streamId: 'counter-1', version: 2, schemaVersion: 1, takenAt: 0, state: state as Counter, ...overrides });
+
+const setup = async (snapshot?: Snapshot<Counter>) => {
+    const store = inMemoryEventStore<Incremented>();
+    await store.append('counter-1', [incremented('evt-1'), incremented('evt-2'), incremented('evt-3')], 0);
+    const snapshots = inMemorySnapshotStore<Counter>();
+    if (snapshot) {
+        await snapshots.save(snapshot);
+    }
+    const snapshotCtx: SnapshotCtx<Counter> = { store: snapshots, validateState: parseCounter, schemaVersion: 1, policy: { everyEvents: 2 } };
+    const load = loadAggregate<Incremented, Counter>({ store, evolve: () => (s) => ({ count: s.count + 1 }), initialState: { count: 0 }, snapshots: snapshotCtx });
+    return { snapshots, load };
+};
+
+describe('loadAggregate', () => {
+    it('folds only the events recorded after a usable snapshot', async () => {
+        const { load } = await setup(snapshotOf({ count: 10 }));
+
+        expect(await load('counter-1')).toMatchObject({ outcome: 'success', data: { state: { count: 11 }, version: 3, snapshot: { version: 2 } } });
+    });
+
+    it('rehydrates from the snapshot state as parsed by validateState', async () => {
+        const { load } = await setup(snapshotOf({ count: '10' }));
+
+        expect(await load('counter-1')).toMatchObject({ outcome: 'success', data: { state: { count: 11 }, snapshot: { state: { count: 10 } } } });
+    });
+
+    it.each([
+        ['saved with another schema version', snapshotOf({ count: 10 }, { schemaVersion: 0 })],
+        ['whose state no longer validates', snapshotOf({ count: 'ten' })]
+    ])('replays the stream from the start and removes a snapshot %s', async (_, snapshot) => {
+        const { snapshots, load } = await setup(snapshot);
+
+        const res = await load('counter-1');
+
+        expect(res).toEqual({ outcome: 'success', data: { state: { count: 3 }, version: 3, snapshot: undefined } });
+        expect(await snapshots.load('counter-1')).toEqual({ outcome: 'success', data: undefined });
+    });
+});
+
+describe('snapshotIfDue', () => {
+    const clock = virtualClock();
+    const due = (policy: SnapshotPolicy, aggregate: LoadedAggregate<Counter>) =>
+        snapshotIfDue<Counter>({ store: inMemorySnapshotStore(), validateState: parseCounter, schemaVersion: 1, policy, now: clock.now })('counter-1')(aggregate);
+
+    it('takes a snapshot once everyEvents events were appended since the last one', async () => {
+        const last = snapshotOf({ count: 2 });
+
+        expect(await due({ everyEvents: 2 }, { state: { count: 3 }, version: 3, snapshot: last })).toEqual({ outcome: 'success', data: undefined });
+        expect(await due({ everyEvents: 2 }, { state: { count: 4 }, version: 4, snapshot: last })).toMatchObject({ outcome: 'success', data: { version: 4, schemaVersion: 1, state: { count: 4 } } });
+    });
+
+    it('takes a snapshot once the last one is older than maxAgeMs, if the stream moved since', async () => {
+        const last = snapshotOf({ count: 2 });
+        clock.set(999);
+        expect(await due({ maxAgeMs: 1000 }, { state: { count: 3 }, version: 3, snapshot: last })).toEqual({ outcome: 'success', data: undefined });
+
+        clock.set(1000);
+        expect(await due({ maxAgeMs: 1000 }, { state: { count: 2 }, version: 2, snapshot: last })).toEqual({ outcome: 'success', data: undefined });
+        expect(await due({ maxAgeMs: 1000 }, { state: { count: 3 }, version: 3, snapshot: last })).toMatchObject({ outcome: 'success', data: { version: 3, takenAt: 1000 } });
+    });
+});
@@ -0,0 +1,118 @@
+import { AnyEvt, AsyncResult, Clock, Evolve, Invariant, isFailure, rehydrateChecked, SafeParse, succeed } from "../core";
+import { EventStore, EventStoreFails } from "./event-store";
+import { shouldSnapshot, Snapshot, SnapshotPolicy, SnapshotStore, SnapshotStoreFails } from "./snapshots";
+
+/**
+ * The snapshot configuration of an aggregate.
+ * @template A The type of the state (the Aggregate).
+ * @property {SnapshotStore<A>} store - Where snapshots are kept.
+ * @property {SafeParse<A>} validateState - Validates a snapshot's state on load; invalid snapshots are discarded.
+ * @property {string | number} schemaVersion - The current version of the aggregate schema; snapshots saved with another version are discarded.
+ * @property {SnapshotPolicy} policy - When to take a new snapshot.
+ * @property {Clock} [now] - The clock, defaults to `Date.now`.
+ */
+export type SnapshotCtx<A> = {
+    store: SnapshotStore<A>;
+    validateState: SafeParse<A>;
+    schemaVersion: string | number;
+    policy: SnapshotPolicy;
+    now?: Clock;
+};
+
+/**
+ * The dependencies needed to load an aggregate from its stream.
+ * @template E The type of the event.
+ * @template A The type of the state (the Aggregate).
+ * @template F The type of failure messages of the invariants.
+ * @property {Invariant<A, F>[]} [invariants] - Business rules checked against every state produced by the evolve function.
+ */
+export type AggregateLoaderCtx<E extends AnyEvt, A, F extends string = never> = {
+    store: EventStore<E>;
+    evolve: Evolve<E, A>;
+    initialState: A;
+    invariants?: Invariant<A, F>[];
+    snapshots?: SnapshotCtx<A>;
+};
+
+/**
+ * An aggregate loaded from its stream.
+ * @template A The type of the state (the Aggregate).
+ * @property {A} state - The rehydrated aggregate.
+ * @property {number} version - The stream version the state corresponds to.
+ * @property {Snapshot<A>} [snapshot] - The snapshot the state was rehydrated from, if any.
+ */
+export type LoadedAggregate<A> = {
+    state: A;
+    version: number;
+    snapshot?: Snapshot<A>;
+};
+
+/**
+ * Loads the latest usable snapshot of a stream, with its state as parsed by `validateState`. Snapshots saved
+ * with another schema version, or whose state no longer validates, are removed. A failing snapshot store is treated as having no snapshot,
+ * since the stream can always be replayed from the start.
+ * @template A The type of the state (the Aggregate).
+ * @param {SnapshotCtx<A>} ctx - The snapshot configuration.
+ * @returns A function that takes a stream id and returns the usable snapshot, if any.
+ */
+const loadSnapshot = <A>(ctx: SnapshotCtx<A>) => async (streamId: string): Promise<Snapshot<A> | undefined> => {
+    const loadRes = await ctx.store.load(streamId);
+    if (isFailure(loadRes) || loadRes.data === undefined) {
+        return undefined;
+    }
+    const snapshot = loadRes.data;
+    const stateRes = snapshot.schemaVersion === ctx.schemaVersion ? ctx.validateState(snapshot.state) : undefined;
+    if (stateRes === undefined || isFailure(stateRes)) {
+        await ctx.store.remove(streamId);
+        return undefined;
+    }
+    return { ...snapshot, state: stateRes.data };
+};
+
+/**
+ * Loads an aggregate: starts from the latest usable snapshot, if snapshots are configured,
+ * and folds the events recorded after it through the evolve function, checking the invariants after every event.
+ * @template E The type of the event.
+ * @template A The type of the state (the Aggregate).
+ * @template F The type of failure messages of the invariants.
+ * @param {AggregateLoaderCtx<E, A, F>} ctx - The event store, evolve function, initial state, invariants and snapshot configuration.
+ * @returns A function that takes a stream id and returns the loaded aggregate.
+ */
+export const loadAggregate = <E extends AnyEvt, A, F extends string = never>(ctx: AggregateLoaderCtx<E, A, F>) =>
+    async (streamId: string): AsyncResult<LoadedAggregate<A>, EventStoreFails | F> => {
+        const snapshot = ctx.snapshots ? await loadSnapshot(ctx.snapshots)(streamId) : undefined;
+        const fromVersion = snapshot?.version ?? 0;
+        const readRes = await ctx.store.read(streamId, fromVersion);
+        if (isFailure(readRes)) {
+            return readRes;
+        }
+        const stored = readRes.data;
+        const version = stored.length > 0 ? stored[stored.length - 1].version : fromVersion;
+        const stateRes = rehydrateChecked(ctx.evolve, ctx.invariants ?? [])(snapshot ? snapshot.state : ctx.initialState, fromVersion)(stored.map(s => s.evt));
+        if (isFailure(stateRes)) {
+            return stateRes;
+        }
+        return succeed({ state: stateRes.data, version, snapshot });
+    };
+
+/**
+ * Saves a snapshot of an aggregate if the snapshot policy says one is due.
+ * @template A The type of the state (the Aggregate).
+ * @param {SnapshotCtx<A>} ctx - The snapshot configuration.
+ * @returns A function that takes a stream id and the aggregate, and returns the saved snapshot, or `undefined` if none was due.
+ */
+export const snapshotIfDue = <A>(ctx: SnapshotCtx<A>) =>
+    (streamId: string) =>
+    async (aggregate: LoadedAggregate<A>): AsyncResult<Snapshot<A> | undefined, SnapshotStoreFails> => {
+        const now = (ctx.now ?? Date.now)();
+        if (!shouldSnapshot(ctx.policy)(aggregate.snapshot, aggregate.version, now)) {
+            return succeed(undefined);
+        }
+        return ctx.store.save({
+            streamId,
+            version: aggregate.version,
+            schemaVersion: ctx.schemaVersion,
+            takenAt: now,
+            state: aggregate.state
+        });
+    };
@@ -0,0 +1,39 @@
+import { AnyEvt, Cause } from "../../core";
+
+/**
+ * A message a subscriber failed to handle, after all its attempts.
+ * @template E The type of the event.
+ * @property {string} subscriber - The name of the subscriber.
+ * @property {E} evt - The message, with its envelope.
+ * @property {Cause<string>[]} cause - The causes of the last failed attempt.
+ * @property {number} attempts - The number of attempts made.
+ */
+export type BusDeadLetter<E extends AnyEvt> = {
+    subscriber: string;
+    evt: E;
+    cause: Cause<string>[];
+    attempts: number;
+};
+
+/**
+ * Port recording the messages subscribers failed to handle.
+ * @template E A union type of the events carried.
+ */
+export type DeadLetterSink<E extends AnyEvt> = {
+    record: (deadLetter: BusDeadLetter<E>) => Promise<void>;
+};
+
+/**
+ * Creates a dead-letter sink keeping dead letters in memory.
+ * @template E A union type of the events carried.
+ * @returns The sink, and `list` to read the dead letters recorded so far.
+ */
+export const inMemoryDeadLetterSink = <E extends AnyEvt>(): DeadLetterSink<E> & { list: () => BusDeadLetter<E>[] } => {
+    const deadLetters: BusDeadLetter<E>[] = [];
+    return {
+        record: async (deadLetter) => {
+            deadLetters.push(deadLetter);
+        },
+        list: () => [...deadLetters]
+    };
+};
@@ -0,0 +1,3 @@
+export * from './transport'
+export * from './dead-letters'
+export * from './message-bus'
@@ -0,0 +1,28 @@
+import { EVT, succeed } from "../../core";
+import { messageBus } from "./message-bus";
+
+type ToDoCreated = EVT<'todo-created', {}>;
+
+const evt = (id: string): ToDoCreated => ({ id, msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} });
+
+describe('messageBus', () => {
+    it('settles idle when a subscriber is removed with messages still queued', async () => {
+        const bus = messageBus<ToDoCreated>();
+        const handled: string[] = [];
+        let release = () => {};
+        const unsubscribe = bus.subscribe({
+            name: 'slow',
+            on: ['todo-created'],
+            handle: (e) => new Promise(resolve => { release = () => { handled.push(e.id); resolve(succeed(e)); }; })
+        });
+
+        await bus.publish(evt('evt-1'));
+        await bus.publish(evt('evt-2'));
+        await bus.publish(evt('evt-3'));
+        unsubscribe();
+        release();
+
+        await expect(bus.idle()).resolves.toBeUndefined();
+        expect(handled).toEqual(['evt-1']);
+    });
+});
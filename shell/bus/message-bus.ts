@@ -0,0 +1,177 @@
+import { concatMap, filter, finalize, from, Observable, Subject, tap } from "rxjs";
+import { AnyEvt, AsyncResult, Cause, fail, isFailure, Result, succeed } from "../../core";
+import { BusDeadLetter, DeadLetterSink, inMemoryDeadLetterSink } from "./dead-letters";
+import { BusTransport, inProcessTransport } from "./transport";
+
+/**
+ * Type representing possible failure messages of the bus.
+ * - `bus_error`: the transport didn't accept a published message.
+ * - `bus_handler_error`: a handler threw instead of returning a `Result`.
+ */
+export type BusFails = 'bus_error' | 'bus_handler_error';
+
+/**
+ * How many times a subscriber tries to handle a message that fails, and how long it waits in between.
+ * @property {number} maxAttempts - The number of attempts, including the first one.
+ * @property backoff - The delay in milliseconds before the next attempt, given the number of the failed attempt (from 1).
+ */
+export type RetryPolicy = {
+    maxAttempts: number;
+    backoff: (attempt: number) => number;
+};
+
+/**
+ * Handles every message once: failures go straight to the dead-letter sink.
+ */
+export const noRetry: RetryPolicy = { maxAttempts: 1, backoff: () => 0 };
+
+/**
+ * Creates a retry policy whose delay doubles after every failed attempt.
+ * @param {number} maxAttempts - The number of attempts, including the first one.
+ * @param {number} initialMs - The delay before the second attempt.
+ * @param {number} [maxMs=Infinity] - The longest delay.
+ * @returns {RetryPolicy} The retry policy.
+ */
+export const exponentialBackoff = (maxAttempts: number, initialMs: number, maxMs: number = Infinity): RetryPolicy => ({
+    maxAttempts,
+    backoff: (attempt) => Math.min(initialMs * 2 ** (attempt - 1), maxMs)
+});
+
+/**
+ * A subscriber of the bus.
+ * @template E A union type of the events carried.
+ * @template T The event types the subscriber handles.
+ * @property {string} name - The name of the subscriber, reported in dead letters.
+ * @property {T[]} on - The event types the subscriber handles.
+ * @property handle - Handles a message, narrowed to the subscribed types. A `Failure` is retried following `retry`.
+ * @property {RetryPolicy} [retry] - The retry policy of the subscriber, defaults to the bus's.
+ */
+export type BusSubscriber<E extends AnyEvt, T extends E['type']> = {
+    name: string;
+    on: T[];
+    handle: (evt: Extract<E, { type: T }>) => Result<unknown, string> | AsyncResult<unknown, string>;
+    retry?: RetryPolicy;
+};
+
+/**
+ * The configuration of a bus. Every part is optional.
+ * @template E A union type of the events carried.
+ * @property {BusTransport<E>} [transport] - Carries the messages, defaults to the in-process transport.
+ * @property {DeadLetterSink<E>} [deadLetters] - Records failed messages, defaults to an in-memory sink.
+ * @property {RetryPolicy} [retry] - The default retry policy of subscribers, defaults to `noRetry`.
+ * @property delay - Waits between attempts, defaults to `setTimeout`; inject a virtual one in tests.
+ */
+export type BusCtx<E extends AnyEvt> = {
+    transport?: BusTransport<E>;
+    deadLetters?: DeadLetterSink<E>;
+    retry?: RetryPolicy;
+    delay?: (ms: number) => Promise<void>;
+};
+
+/**
+ * A typed message bus.
+ * @template E A union type of the events carried.
+ * @property publish - Publishes a message to every subscriber of its type, envelope included.
+ * @property subscribe - Adds a subscriber, and returns a function that removes it; messages it had not handled yet are dropped.
+ * @property deadLetters$ - The dead letters, as they are recorded.
+ * @property idle - Resolves once every subscriber has handled the messages delivered so far.
+ */
+export type Bus<E extends AnyEvt> = {
+    publish: (evt: E) => AsyncResult<E, BusFails>;
+    subscribe: <T extends E['type']>(subscriber: BusSubscriber<E, T>) => () => void;
+    deadLetters$: Observable<BusDeadLetter<E>>;
+    idle: () => Promise<void>;
+};
+
+/**
+ * Creates a typed message bus. Each subscriber handles its messages one at a time, in delivery order,
+ * independently of the other subscribers. A handler returning a `Failure` (or throwing) is retried
+ * following its retry policy; when the attempts run out, the message and the causes of the last attempt
+ * go to the dead-letter sink and the subscriber moves on to the next message.
+ * @template E A union type of the events carried, e.g. the event union of a module.
+ * @param {BusCtx<E>} [ctx] - The transport, dead-letter sink, default retry policy and delay of the bus.
+ * @returns {Bus<E>} The bus.
+ */
+export const messageBus = <E extends AnyEvt>(ctx: BusCtx<E> = {}): Bus<E> => {
+    const transport = ctx.transport ?? inProcessTransport<E>();
+    const sink = ctx.deadLetters ?? inMemoryDeadLetterSink<E>();
+    const delay = ctx.delay ?? ((ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms)));
+    const deadLetters = new Subject<BusDeadLetter<E>>();
+
+    let pending = 0;
+    let waiters: (() => void)[] = [];
+    const settled = (count: number) => {
+        pending -= count;
+        if (pending === 0) {
+            waiters.forEach(resolve => resolve());
+            waiters = [];
+        }
+    };
+
+    const attempt = async <T extends E['type']>(subscriber: BusSubscriber<E, T>, evt: Extract<E, { type: T }>): Promise<Cause<string>[] | undefined> => {
+        try {
+            const res = await subscriber.handle(evt);
+            return isFailure(res) ? res.cause : undefined;
+        } catch (e) {
+            return fail<BusFails>('bus_handler_error', e instanceof Error ? e.message : e).cause;
+        }
+    };
+
+    const deliver = async <T extends E['type']>(subscriber: BusSubscriber<E, T>, evt: Extract<E, { type: T }>): Promise<void> => {
+        const retry = subscriber.retry ?? ctx.retry ?? noRetry;
+        for (let attempts = 1; ; attempts++) {
+            const cause = await attempt(subscriber, evt);
+            if (!cause) {
+                return;
+            }
+            if (attempts >= retry.maxAttempts) {
+                const deadLetter: BusDeadLetter<E> = { subscriber: subscriber.name, evt, cause, attempts };
+                await sink.record(deadLetter).catch(() => undefined);
+                deadLetters.next(deadLetter);
+                return;
+            }
+            await delay(retry.backoff(attempts));
+        }
+    };
+
+    const subscribe: Bus<E>['subscribe'] = (subscriber) => {
+        let queued = 0;
+        const delivered = () => {
+            queued -= 1;
+            settled(1);
+        };
+        const subscription = transport.messages$.pipe(
+            filter((evt): evt is Extract<E, { type: typeof subscriber.on[number] }> => (subscriber.on as string[]).includes(evt.type)),
+            tap(() => {
+                queued += 1;
+                pending += 1;
+            }),
+            concatMap(evt => from(deliver(subscriber, evt)).pipe(finalize(delivered)))
+        ).subscribe();
+        return () => {
+            subscription.unsubscribe();
+            if (queued > 0) {
+                settled(queued);
+                queued = 0;
+            }
+        };
+    };
+
+    const publish: Bus<E>['publish'] = async (evt) => {
+        try {
+            await transport.publish(evt);
+            return succeed(evt);
+        } catch (e) {
+            return fail<BusFails>('bus_error', e instanceof Error ? e.message : e);
+        }
+    };
+
+    const idle = () => pending === 0 ? Promise.resolve() : new Promise<void>(resolve => { waiters.push(resolve); });
+
+    return {
+        publish,
+        subscribe,
+        deadLetters$: deadLetters.asObservable(),
+        idle
+    };
+};
@@ -0,0 +1,34 @@
+import { Observable, Subject } from "rxjs";
+import { AnyEvt } from "../../core";
+
+/**
+ * Port carrying messages between publishers and subscribers of a bus.
+ * The in-process transport is the default; implement this port over an external broker
+ * (publish to the broker, and expose what it delivers as `messages$`) to move the bus out of process
+ * without changing publishers or subscribers.
+ * @template E A union type of the events carried.
+ */
+export type BusTransport<E extends AnyEvt> = {
+    /**
+     * Sends a message to every subscriber. Resolves once the transport has accepted it.
+     */
+    publish: (evt: E) => Promise<void>;
+    /**
+     * The messages delivered by the transport, in the order it delivers them.
+     */
+    messages$: Observable<E>;
+};
+
+/**
+ * Creates a transport delivering messages within the process, synchronously and in publish order.
+ * Messages are delivered as published, envelope included.
+ * @template E A union type of the events carried.
+ * @returns {BusTransport<E>} An in-process transport.
+ */
+export const inProcessTransport = <E extends AnyEvt>(): BusTransport<E> => {
+    const messages = new Subject<E>();
+    return {
+        publish: async (evt) => messages.next(evt),
+        messages$: messages.asObservable()
+    };
+};
@@ -0,0 +1,95 @@
+import { Type } from "@sinclair/typebox";
+import { AGG, CMD, composeWf, CoreWf, defineLifecycle, EVT, Evolve, fail, Invariant, SafeParse, safeParseTBoxWith, succeed } from "../core";
+import { CmdHandlerCtx, handleCommand } from "./command-handler";
+import { inMemoryEventStore } from "./event-store";
+
+type ToDo = AGG<'draft', { title: string }> | AGG<'open', { title: string }> | AGG<'done', { title: string }>;
+type OpenToDo = CMD<'open-todo', {}>;
+type ToDoOpened = EVT<'todo-opened', {}>;
+type ToDoCompleted = EVT<'todo-completed', {}>;
+type OpenToDoWf = CoreWf<'open-todo', OpenToDo, ToDo, ToDoOpened | ToDoCompleted, ToDo, string>;
+
+const parseToDo = safeParseTBoxWith({ convert: true })<ToDo>(Type.Object({
+    _tag: Type.Union([Type.Literal('draft'), Type.Literal('open'), Type.Literal('done')]),
+    data: Type.Object({ title: Type.String() })
+}));
+const evolve: Evolve<OpenToDoWf['evt'], ToDo> = (evt) => (state) =>
+    evt.type === 'todo-opened' ? { _tag: 'open', data: state.data } : { _tag: 'done', data: state.data };
+const cmd: OpenToDo = { id: 'cmd-1', msgType: 'cmd', type: 'open-todo', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} };
+const evtOf = <T extends OpenToDoWf['evt']['type']>(type: T) =>
+    ({ id: `evt-${type}`, msgType: 'evt', type, timestamp: 1, correlationid: 'corr-1', causationid: 'cmd-1', data: {} }) as Extract<OpenToDoWf['evt'], { type: T }>;
+
+const todoLifecycle = defineLifecycle<ToDo>('draft')({
+    'open-todo': { from: ['draft'], to: ['open'] }
+});
+
+const neverDone: Invariant<ToDo, string> = (state) => state._tag === 'done' ? fail('todo_done') : succeed(state);
+
+const setup = (overrides: Partial<CmdHandlerCtx<OpenToDoWf>> = {}) => {
+    const store = inMemoryEventStore<OpenToDoWf['evt']>();
+    const handle = (decide: OpenToDoWf['decide'], validateOutputState: SafeParse<ToDo> = parseToDo) =>
+        handleCommand<OpenToDoWf>({ store, evolve, initialState: { _tag: 'draft', data: { title: 'Write tests' } }, ...overrides })(composeWf<OpenToDoWf>(parseToDo)([])(decide)(validateOutputState))('todo-1')(cmd);
+    return { store, handle };
+};
+
+describe('handleCommand', () => {
+    it('appends the events at the version the aggregate was loaded at', async () => {
+        const { store, handle } = setup();
+        await store.append('todo-1', [evtOf('todo-opened')], 0);
+
+        const res = await handle(() => () => succeed([evtOf('todo-completed')]));
+
+        expect(res).toMatchObject({ outcome: 'success', data: { events: [{ type: 'todo-completed' }], state: { _tag: 'done' }, version: 2 } });
+        expect(await store.read('todo-1')).toMatchObject({ outcome: 'success', data: [{ version: 1 }, { version: 2, evt: { type: 'todo-completed' } }] });
+    });
+
+    it('rejects a command whose output state fails validation, without appending', async () => {
+        const { store, handle } = setup();
+        const parseOpenToDo = safeParseTBoxWith({ convert: true })<ToDo>(Type.Object({ _tag: Type.Literal('open'), data: Type.Object({ title: Type.String() }) }));
+
+        const res = await handle(() => () => succeed([evtOf('todo-completed')]), parseOpenToDo);
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'parse_error' }] });
+        expect(await store.readAll()).toEqual({ outcome: 'success', data: [] });
+    });
+
+    it('appends the events of a command moving the aggregate along its lifecycle', async () => {
+        const { store, handle } = setup({ lifecycle: todoLifecycle });
+
+        const res = await handle(() => () => succeed([evtOf('todo-opened')]));
+
+        expect(res).toMatchObject({ outcome: 'success', data: { state: { _tag: 'open' }, version: 1 } });
+        expect(await store.read('todo-1')).toMatchObject({ outcome: 'success', data: [{ version: 1, evt: { type: 'todo-opened' } }] });
+    });
+
+    it('rejects a command moving the aggregate along a transition its lifecycle does not allow, without appending', async () => {
+        const { store, handle } = setup({ lifecycle: todoLifecycle });
+
+        const res = await handle(() => () => succeed([evtOf('todo-completed')]));
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'illegal_transition', data: { command: 'open-todo', from: 'draft', to: 'done' } }] });
+        expect(await store.readAll()).toEqual({ outcome: 'success', data: [] });
+    });
+
+    it('rejects a command whose events break an invariant, without appending', async () => {
+        const { store, handle } = setup({ invariants: [neverDone] });
+
+        const res = await handle(() => () => succeed([evtOf('todo-opened'), evtOf('todo-completed')]));
+
+        expect(res).toMatchObject({
+            outcome: 'failure',
+            cause: [{ msg: 'todo_done', constraint: 'neverDone', data: { evt: { id: 'evt-todo-completed', type: 'todo-completed' }, version: 2 } }]
+        });
+        expect(await store.readAll()).toEqual({ outcome: 'success', data: [] });
+    });
+
+    it('fails to load a stream whose recorded events break an invariant', async () => {
+        const { store, handle } = setup({ invariants: [neverDone] });
+        await store.append('todo-1', [evtOf('todo-completed')], 0);
+
+        const res = await handle(() => () => succeed([evtOf('todo-opened')]));
+
+        expect(res).toMatchObject({ outcome: 'failure', cause: [{ msg: 'todo_done', data: { version: 1 } }] });
+        expect(await store.read('todo-1')).toMatchObject({ outcome: 'success', data: [{ evt: { type: 'todo-completed' } }] });
+    });
+});
@@ -0,0 +1,80 @@
+import { AsyncResult, CoreWf, isFailure, Lifecycle, LifecycleFails, rehydrateChecked, succeed, Transitions } from "../core";
+import { AggregateLoaderCtx, loadAggregate, snapshotIfDue } from "./aggregate-loader";
+import { EventStoreFails } from "./event-store";
+
+type _AnyCoreWf = CoreWf<any, any, any, any, any, string>;
+type _AnyLifecycle = Lifecycle<any, Transitions<string>>;
+
+/**
+ * The outcome of a handled command.
+ * @template W The workflow type.
+ */
+export type HandledCmd<W extends _AnyCoreWf> = {
+    events: W['evt'][];
+    state: W['aggregate'];
+    version: number;
+};
+
+/**
+ * The dependencies needed to handle commands for one aggregate type.
+ * With `snapshots` configured, the aggregate is loaded from its latest snapshot and a new one is saved when the policy says so.
+ * With a `lifecycle` configured, commands that move the aggregate along a transition it doesn't allow are rejected.
+ * With `invariants` configured, they are checked after every event, both when replaying the stream and for the new events.
+ * @template W The workflow type.
+ */
+export type CmdHandlerCtx<W extends _AnyCoreWf> = AggregateLoaderCtx<W['evt'], W['aggregate'], W['fails']> & {
+    lifecycle?: _AnyLifecycle;
+};
+
+/**
+ * Handles a command against one aggregate stream, end to end:
+ * loads and rehydrates the aggregate, runs the composed decide, evolves the state with the new events
+ * while checking the invariants, checks the transition against the lifecycle, if any, validates the output state and appends the events. Nothing is persisted if any step fails.
+ * Saving a snapshot is best effort: the events are already appended, so a failing snapshot store doesn't fail the command.
+ * @template W The workflow type.
+ * @param {CmdHandlerCtx<W>} ctx - The event store, evolve function, initial state and snapshot configuration of the aggregate.
+ * @returns A function that takes a composed workflow, sync or async, a stream id and a command, and returns the handled command.
+ */
+export const handleCommand = <W extends _AnyCoreWf>(ctx: CmdHandlerCtx<W>) =>
+    (wf: W['wf'] | W['wfAsync']) =>
+    (streamId: string) =>
+    async (cmd: W['cmd']): AsyncResult<HandledCmd<W>, W['fails'] | EventStoreFails | LifecycleFails> => {
+        const loadRes = await loadAggregate(ctx)(streamId);
+        if (isFailure(loadRes)) {
+            return loadRes;
+        }
+        const { state: currState, version, snapshot } = loadRes.data;
+
+        const decideRes = await wf.decide(cmd)(currState);
+        if (isFailure(decideRes)) {
+            return decideRes;
+        }
+        const events: W['evt'][] = decideRes['data'];
+        const stateRes = rehydrateChecked(ctx.evolve, ctx.invariants ?? [])(currState, version)(events);
+        if (isFailure(stateRes)) {
+            return stateRes;
+        }
+        const state = stateRes.data;
+
+        if (ctx.lifecycle && events.length > 0) {
+            const transitionRes = ctx.lifecycle.check(cmd.type)(currState)(state);
+            if (isFailure(transitionRes)) {
+                return transitionRes;
+            }
+        }
+
+        const validateRes = wf.validateOutputState(state);
+        if (isFailure(validateRes)) {
+            return validateRes;
+        }
+
+        const appendRes = await ctx.store.append(streamId, events, version);
+        if (isFailure(appendRes)) {
+            return appendRes;
+        }
+        const newVersion = version + events.length;
+        if (ctx.snapshots) {
+            await snapshotIfDue(ctx.snapshots)(streamId)({ state, version: newVersion, snapshot });
+        }
+        return succeed({ events, state, version: newVersion });
+    };
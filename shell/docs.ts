@@ -0,0 +1,44 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, extname } from "node:path";
+import { AsyncApiOptions, asyncApiDoc, AsyncResult, businessDoc, fail, ModuleMeta, succeed, toYaml } from "../core";
+
+/**
+ * Type representing possible failure messages when writing generated documents.
+ */
+export type DocsFails = 'docs_write_error';
+
+/**
+ * Writes a generated document, creating its directory if needed.
+ * @param {string} filePath - The path of the file.
+ * @returns A function that takes the content and returns the path it was written to.
+ */
+export const writeDoc = (filePath: string) => async (content: string): AsyncResult<string, DocsFails> => {
+    try {
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, content, 'utf8');
+        return succeed(filePath);
+    } catch (e) {
+        return fail<DocsFails>('docs_write_error', e);
+    }
+};
+
+/**
+ * Generates the AsyncAPI 3.0 document of a module and writes it to a file,
+ * as JSON if the path ends with `.json` and as YAML otherwise, so it can be checked into the repo.
+ * @param {string} filePath - The path of the file, e.g. `docs/todo.asyncapi.yaml`.
+ * @param {AsyncApiOptions} options - The version, title and description of the document.
+ * @returns A function that takes the module metadata and returns the path the document was written to.
+ */
+export const writeAsyncApi = (filePath: string, options: AsyncApiOptions) => (meta: ModuleMeta): AsyncResult<string, DocsFails> => {
+    const doc = asyncApiDoc(options)(meta);
+    const content = extname(filePath) === '.json' ? `${JSON.stringify(doc, null, 2)}\n` : toYaml(doc);
+    return writeDoc(filePath)(content);
+};
+
+/**
+ * Generates the Markdown business documentation of a module and writes it to a file.
+ * @param {string} filePath - The path of the file, e.g. `docs/todo.md`.
+ * @returns A function that takes the module metadata and returns the path the document was written to.
+ */
+export const writeBusinessDoc = (filePath: string) => (meta: ModuleMeta): AsyncResult<string, DocsFails> =>
+    writeDoc(filePath)(businessDoc(meta));
@@ -0,0 +1,82 @@
+import { AnyEvt, AsyncResult, fail, Failure, Result, succeed, UpcastFails } from "../../core";
+
+/**
+ * Type representing possible failure messages of an event store.
+ * Upcasting failures are raised on read by stores wrapped with `upcastingEventStore`.
+ */
+export type EventStoreFails = 'concurrency_conflict' | 'event_store_error' | UpcastFails;
+
+/**
+ * An event as persisted in a stream. The event keeps its full `Msg` envelope.
+ * `version` is the position of the event in its stream, `position` its position across all streams of the store.
+ * @template E The type of the event.
+ */
+export type StoredEvt<E extends AnyEvt> = {
+    streamId: string;
+    version: number;
+    position: number;
+    evt: E;
+};
+
+/**
+ * Port for persisting and loading event streams.
+ * The version of a stream is the number of events it holds: an empty stream is at version 0,
+ * and the n-th event appended to a stream is stored with version n.
+ * Positions number the events of the whole store the same way, starting at 1.
+ * @template E A union type of the events that can be stored.
+ */
+export type EventStore<E extends AnyEvt> = {
+    /**
+     * Appends events to a stream, failing with `concurrency_conflict` if the stream is not at `expectedVersion`.
+     */
+    append: (streamId: string, events: E[], expectedVersion: number) => AsyncResult<StoredEvt<E>[], EventStoreFails>;
+    /**
+     * Reads the events of a stream recorded after `fromVersion` (defaults to 0, the whole stream).
+     */
+    read: (streamId: string, fromVersion?: number) => AsyncResult<StoredEvt<E>[], EventStoreFails>;
+    /**
+     * Reads the events of every stream recorded after `fromPosition` (defaults to 0, the whole store), in append order.
+     */
+    readAll: (fromPosition?: number) => AsyncResult<StoredEvt<E>[], EventStoreFails>;
+};
+
+/**
+ * Details attached to a `concurrency_conflict` failure.
+ */
+export type ConcurrencyConflict = {
+    streamId: string;
+    expectedVersion: number;
+    actualVersion: number;
+};
+
+/**
+ * Checks that a stream is at the expected version before appending to it.
+ * @param {string} streamId - The stream being appended to.
+ * @param {number} expectedVersion - The version the caller expects the stream to be at.
+ * @returns A function that takes the actual version of the stream and returns it on success.
+ */
+export const checkExpectedVersion = (streamId: string, expectedVersion: number) => (actualVersion: number): Result<number, EventStoreFails> => {
+    if (expectedVersion !== actualVersion) {
+        const conflict: ConcurrencyConflict = { streamId, expectedVersion, actualVersion };
+        return fail<EventStoreFails>('concurrency_conflict', conflict);
+    }
+    return succeed(actualVersion);
+};
+
+/**
+ * Assigns consecutive stream versions and store positions to a batch of events.
+ * @template E The type of the event.
+ * @param {string} streamId - The stream the events are appended to.
+ * @param {number} currentVersion - The version of the stream before the append.
+ * @param {number} currentPosition - The position of the last event of the store before the append.
+ * @returns A function that turns events into stored events.
+ */
+export const toStoredEvts = <E extends AnyEvt>(streamId: string, currentVersion: number, currentPosition: number) => (events: E[]): StoredEvt<E>[] =>
+    events.map((evt, i) => ({ streamId, version: currentVersion + i + 1, position: currentPosition + i + 1, evt }));
+
+/**
+ * Wraps an unexpected storage error into an `event_store_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<EventStoreFails>} A failure result.
+ */
+export const eventStoreError = (e: unknown): Failure<EventStoreFails> => fail<EventStoreFails>('event_store_error', e);
@@ -0,0 +1,34 @@
+import { AnyEvt } from "../../core";
+import { inMemoryEventStore } from "./in-memory";
+
+const evt = (id: string): AnyEvt => ({ id, msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} });
+
+describe('inMemoryEventStore', () => {
+    it('rejects an append at a stale expected version, leaving the stream unchanged', async () => {
+        const store = inMemoryEventStore();
+        await store.append('todo-1', [evt('evt-1'), evt('evt-2')], 0);
+
+        const res = await store.append('todo-1', [evt('evt-3')], 1);
+
+        expect(res).toEqual({ outcome: 'failure', cause: [{ msg: 'concurrency_conflict', data: { streamId: 'todo-1', expectedVersion: 1, actualVersion: 2 } }] });
+        expect(await store.read('todo-1')).toMatchObject({ outcome: 'success', data: [{ version: 1 }, { version: 2 }] });
+    });
+
+    it('numbers events by stream version and by store position, and reads the log after a position', async () => {
+        const store = inMemoryEventStore();
+        await store.append('todo-1', [evt('evt-1')], 0);
+        await store.append('todo-2', [evt('evt-2')], 0);
+        await store.append('todo-1', [evt('evt-3')], 1);
+
+        expect(await store.readAll()).toMatchObject({
+            outcome: 'success',
+            data: [
+                { streamId: 'todo-1', version: 1, position: 1, evt: { id: 'evt-1' } },
+                { streamId: 'todo-2', version: 1, position: 2, evt: { id: 'evt-2' } },
+                { streamId: 'todo-1', version: 2, position: 3, evt: { id: 'evt-3' } }
+            ]
+        });
+        expect(await store.readAll(2)).toMatchObject({ outcome: 'success', data: [{ position: 3, evt: { id: 'evt-3' } }] });
+        expect(await store.read('todo-1', 1)).toMatchObject({ outcome: 'success', data: [{ version: 2, evt: { id: 'evt-3' } }] });
+    });
+});
@@ -0,0 +1,40 @@
+import { AnyEvt, isFailure, succeed } from "../../core";
+import { checkExpectedVersion, EventStore, StoredEvt, toStoredEvts } from "./event-store";
+
+/**
+ * Creates an event store that keeps all streams in memory.
+ * Events are copied on the way in and out, so callers can't mutate stored history.
+ * @template E A union type of the events that can be stored.
+ * @returns {EventStore<E>} An in-memory event store.
+ */
+export const inMemoryEventStore = <E extends AnyEvt>(): EventStore<E> => {
+    const streams = new Map<string, StoredEvt<E>[]>();
+    const log: StoredEvt<E>[] = [];
+
+    const append: EventStore<E>['append'] = async (streamId, events, expectedVersion) => {
+        const stream = streams.get(streamId) ?? [];
+        const versionRes = checkExpectedVersion(streamId, expectedVersion)(stream.length);
+        if (isFailure(versionRes)) {
+            return versionRes;
+        }
+        const stored = toStoredEvts<E>(streamId, stream.length, log.length)(structuredClone(events));
+        streams.set(streamId, [...stream, ...stored]);
+        log.push(...stored);
+        return succeed(structuredClone(stored));
+    };
+
+    const read: EventStore<E>['read'] = async (streamId, fromVersion = 0) => {
+        const stream = streams.get(streamId) ?? [];
+        return succeed(structuredClone(stream.filter(s => s.version > fromVersion)));
+    };
+
+    const readAll: EventStore<E>['readAll'] = async (fromPosition = 0) => {
+        return succeed(structuredClone(log.slice(fromPosition)));
+    };
+
+    return {
+        append,
+        read,
+        readAll
+    };
+};
@@ -0,0 +1,4 @@
+export * from './event-store'
+export * from './in-memory'
+export * from './jsonl'
+export * from './upcasting'
@@ -0,0 +1,68 @@
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AnyEvt } from "../../core";
+import { jsonlEventStore } from "./jsonl";
+
+const evt = (id: string): AnyEvt => ({ id, msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} });
+
+describe('jsonlEventStore', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'jsonl-'));
+        filePath = join(dir, 'events.jsonl');
+    });
+
+    afterEach(() => rm(dir, { recursive: true, force: true }));
+
+    it('ignores a trailing line torn by a crash during an append', async () => {
+        await jsonlEventStore(filePath).append('todo-1', [evt('evt-1')], 0);
+        await appendFile(filePath, '{"streamId":"todo-1","version":2,"pos', 'utf8');
+
+        const res = await jsonlEventStore(filePath).readAll();
+
+        expect(res).toMatchObject({ outcome: 'success', data: [{ position: 1, evt: { id: 'evt-1' } }] });
+    });
+
+    it('cuts off a torn trailing line before the next append', async () => {
+        await jsonlEventStore(filePath).append('todo-1', [evt('evt-1')], 0);
+        await appendFile(filePath, '{"streamId":"todo-1","version":2,"pos', 'utf8');
+        const store = jsonlEventStore(filePath);
+
+        const appendRes = await store.append('todo-1', [evt('evt-2')], 1);
+        const readRes = await store.readAll();
+
+        expect(appendRes).toMatchObject({ outcome: 'success', data: [{ version: 2, position: 2 }] });
+        expect(readRes).toMatchObject({ outcome: 'success', data: [{ evt: { id: 'evt-1' } }, { evt: { id: 'evt-2' } }] });
+        expect((await readFile(filePath, 'utf8')).split('\n')).toHaveLength(3);
+    });
+
+    it('rejects an append at a stale expected version, leaving the file unchanged', async () => {
+        await jsonlEventStore(filePath).append('todo-1', [evt('evt-1'), evt('evt-2')], 0);
+        const store = jsonlEventStore(filePath);
+
+        const res = await store.append('todo-1', [evt('evt-3')], 1);
+
+        expect(res).toEqual({ outcome: 'failure', cause: [{ msg: 'concurrency_conflict', data: { streamId: 'todo-1', expectedVersion: 1, actualVersion: 2 } }] });
+        expect(await store.read('todo-1')).toMatchObject({ outcome: 'success', data: [{ version: 1 }, { version: 2 }] });
+    });
+
+    it('numbers events by stream version and by store position across reopenings, and reads the log after a position', async () => {
+        await jsonlEventStore(filePath).append('todo-1', [evt('evt-1')], 0);
+        await jsonlEventStore(filePath).append('todo-2', [evt('evt-2')], 0);
+        await jsonlEventStore(filePath).append('todo-1', [evt('evt-3')], 1);
+        const store = jsonlEventStore(filePath);
+
+        expect(await store.readAll()).toMatchObject({
+            outcome: 'success',
+            data: [
+                { streamId: 'todo-1', version: 1, position: 1, evt: { id: 'evt-1' } },
+                { streamId: 'todo-2', version: 1, position: 2, evt: { id: 'evt-2' } },
+                { streamId: 'todo-1', version: 2, position: 3, evt: { id: 'evt-3' } }
+            ]
+        });
+        expect(await store.readAll(2)).toMatchObject({ outcome: 'success', data: [{ position: 3, evt: { id: 'evt-3' } }] });
+    });
+});
@@ -0,0 +1,109 @@
+import { appendFile, mkdir, readFile, truncate } from "node:fs/promises";
+import { dirname } from "node:path";
+import { AnyEvt, isFailure, succeed } from "../../core";
+import { serialQueue } from "../serial-queue";
+import { checkExpectedVersion, EventStore, eventStoreError, StoredEvt, toStoredEvts } from "./event-store";
+
+/**
+ * The content of a JSONL file: its complete lines, and the size in bytes they take.
+ * A trailing line without its newline was torn by a crash during an append that was never acknowledged,
+ * so it is left out.
+ */
+type JsonlContent<E extends AnyEvt> = {
+    stored: StoredEvt<E>[];
+    completeBytes: number;
+    tornBytes: number;
+};
+
+/**
+ * Reads every stored event from a JSONL file. A missing file is an empty store, and a torn trailing line is ignored.
+ * @template E The type of the event.
+ * @param {string} filePath - The path of the JSONL file.
+ * @returns The stored events, in append order, and the sizes of the complete and torn parts of the file.
+ */
+const readLines = async <E extends AnyEvt>(filePath: string): Promise<JsonlContent<E>> => {
+    try {
+        const content = await readFile(filePath, 'utf8');
+        const complete = content.slice(0, content.lastIndexOf('\n') + 1);
+        const stored = complete
+            .split('\n')
+            .filter(line => line.trim().length > 0)
+            .map(line => reviveStoredEvt<E>(JSON.parse(line)));
+        const completeBytes = Buffer.byteLength(complete, 'utf8');
+        return { stored, completeBytes, tornBytes: Buffer.byteLength(content, 'utf8') - completeBytes };
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            return { stored: [], completeBytes: 0, tornBytes: 0 };
+        }
+        throw e;
+    }
+};
+
+/**
+ * Restores the envelope keys that JSON drops, such as an undefined `causationid`.
+ * @template E The type of the event.
+ * @param {StoredEvt<E>} stored - The stored event as parsed from JSON.
+ * @returns The stored event with a complete envelope.
+ */
+const reviveStoredEvt = <E extends AnyEvt>(stored: StoredEvt<E>): StoredEvt<E> => ({
+    ...stored,
+    evt: { ...stored.evt, causationid: stored.evt.causationid }
+});
+
+/**
+ * Creates an event store backed by an append-only JSONL file, one stored event per line.
+ * Appends are serialized within the store instance; the file must not be shared by several processes.
+ * A line torn by a crash during an append is ignored on read, and cut off before the next append.
+ * @template E A union type of the events that can be stored.
+ * @param {string} filePath - The path of the JSONL file. It is created on first append.
+ * @returns {EventStore<E>} A file-based event store.
+ */
+export const jsonlEventStore = <E extends AnyEvt>(filePath: string): EventStore<E> => {
+    const serialize = serialQueue();
+
+    const append: EventStore<E>['append'] = (streamId, events, expectedVersion) => serialize(async () => {
+        try {
+            const { stored: log, completeBytes, tornBytes } = await readLines<E>(filePath);
+            const stream = log.filter(s => s.streamId === streamId);
+            const versionRes = checkExpectedVersion(streamId, expectedVersion)(stream.length);
+            if (isFailure(versionRes)) {
+                return versionRes;
+            }
+            const stored = toStoredEvts<E>(streamId, stream.length, log.length)(events);
+            if (stored.length > 0) {
+                await mkdir(dirname(filePath), { recursive: true });
+                if (tornBytes > 0) {
+                    await truncate(filePath, completeBytes);
+                }
+                await appendFile(filePath, stored.map(s => JSON.stringify(s) + '\n').join(''), 'utf8');
+            }
+            return succeed(stored);
+        } catch (e) {
+            return eventStoreError(e);
+        }
+    });
+
+    const read: EventStore<E>['read'] = (streamId, fromVersion = 0) => serialize(async () => {
+        try {
+            const { stored } = await readLines<E>(filePath);
+            return succeed(stored.filter(s => s.streamId === streamId && s.version > fromVersion));
+        } catch (e) {
+            return eventStoreError(e);
+        }
+    });
+
+    const readAll: EventStore<E>['readAll'] = (fromPosition = 0) => serialize(async () => {
+        try {
+            const { stored } = await readLines<E>(filePath);
+            return succeed(stored.slice(fromPosition));
+        } catch (e) {
+            return eventStoreError(e);
+        }
+    });
+
+    return {
+        append,
+        read,
+        readAll
+    };
+};
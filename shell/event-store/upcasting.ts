@@ -0,0 +1,45 @@
+import { AnyEvt, AsyncResult, isFailure, succeed, UpcasterRegistry } from "../../core";
+import { EventStore, EventStoreFails, StoredEvt } from "./event-store";
+
+/**
+ * Upcasts a batch of stored events, failing with the first event that can't be upcast.
+ * @template E The type of the event.
+ * @param {UpcasterRegistry} registry - The upcasters.
+ * @returns A function that takes the stored events and returns them at the latest version of their type.
+ */
+const upcastStored = <E extends AnyEvt>(registry: UpcasterRegistry) => (stored: StoredEvt<E>[]) => {
+    const upcast: StoredEvt<E>[] = [];
+    for (const s of stored) {
+        const res = registry.upcast(s.evt);
+        if (isFailure(res)) {
+            return res;
+        }
+        upcast.push({ ...s, evt: res.data });
+    }
+    return succeed(upcast);
+};
+
+/**
+ * Wraps an event store so that events are upcast to the latest version of their type when read.
+ * Events are appended as they are: the stored history is never rewritten.
+ * @template E A union type of the events that can be stored, at their latest version.
+ * @param {UpcasterRegistry} registry - The upcasters.
+ * @returns A function that takes the event store to wrap and returns the upcasting event store.
+ */
+export const upcastingEventStore = (registry: UpcasterRegistry) => <E extends AnyEvt>(store: EventStore<E>): EventStore<E> => {
+    const read: EventStore<E>['read'] = async (streamId, fromVersion = 0): AsyncResult<StoredEvt<E>[], EventStoreFails> => {
+        const res = await store.read(streamId, fromVersion);
+        return isFailure(res) ? res : upcastStored<E>(registry)(res.data);
+    };
+
+    const readAll: EventStore<E>['readAll'] = async (fromPosition = 0): AsyncResult<StoredEvt<E>[], EventStoreFails> => {
+        const res = await store.readAll(fromPosition);
+        return isFailure(res) ? res : upcastStored<E>(registry)(res.data);
+    };
+
+    return {
+        append: store.append,
+        read,
+        readAll
+    };
+};
@@ -0,0 +1,62 @@
+import { Static, Type } from "@sinclair/typebox";
+import { AddressInfo } from "node:net";
+import { Server } from "node:http";
+import { CMD, EVT } from "../core/__schema__";
+import { composeWf, CoreWf, defineModule, Mod, succeed } from "../core";
+import { createCommandServer } from "./http-gateway";
+
+const CreateToDo = CMD(Type.Literal('create-todo'), Type.Object({ id: Type.String(), title: Type.String() }));
+type CreateToDo = Static<typeof CreateToDo>;
+const ToDoCreated = EVT(Type.Literal('todo-created'), Type.Object({ id: Type.String(), title: Type.String() }));
+type ToDoCreated = Static<typeof ToDoCreated>;
+
+type ToDo = { _tag: 'none' | 'open' };
+type CreateToDoWf = CoreWf<'create-todo', CreateToDo, ToDo, ToDoCreated, ToDo, never>;
+type ToDoMod = Mod<CreateToDo, ToDoCreated, ToDo, never>;
+
+const create: CreateToDoWf['decide'] = (cmd) => () => succeed([{ ...cmd, msgType: 'evt', type: 'todo-created' }]);
+
+const toDoModule = defineModule<ToDoMod>('todo')({
+    workflows: { 'create-todo': { wf: composeWf<CreateToDoWf>(succeed)([])(create)(succeed), emits: ['todo-created'] } },
+    evolve: () => () => ({ _tag: 'open' }),
+    initialState: { _tag: 'none' },
+    schemas: { cmds: { 'create-todo': CreateToDo }, evts: { 'todo-created': ToDoCreated }, state: Type.Object({ _tag: Type.String() }) }
+});
+
+describe('commandGateway', () => {
+    let server: Server;
+    let url: string;
+
+    beforeAll(async () => {
+        server = createCommandServer<ToDoMod>({ streamId: (cmd) => cmd.data.id, maxBodyBytes: 64 })(toDoModule);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    const post = (path: string, body: string) => fetch(url + path, { method: 'POST', body });
+
+    it('handles a command', async () => {
+        const res = await post('/commands/create-todo', JSON.stringify({ id: 't1', title: 'milk' }));
+        expect(res.status).toBe(200);
+        expect(await res.json()).toMatchObject({ events: [{ type: 'todo-created', data: { id: 't1', title: 'milk' } }], version: 1 });
+    });
+
+    it('rejects a malformed path without crashing', async () => {
+        expect((await post('/commands/%', '{}')).status).toBe(400);
+        expect((await post('/commands/create-todo', JSON.stringify({ id: 't2', title: 'bread' }))).status).toBe(200);
+    });
+
+    it.each(['constructor', 'toString', '__proto__'])('rejects the inherited property %s as an unknown command type', async (type) => {
+        const res = await post(`/commands/${type}`, '{}');
+        expect(res.status).toBe(404);
+        expect(await res.json()).toMatchObject({ error: 'invalid_command_type' });
+    });
+
+    it('delivers the 413 response for a body over the limit', async () => {
+        const res = await post('/commands/create-todo', JSON.stringify({ id: 't3', title: 'x'.repeat(1024 * 1024) }));
+        expect(res.status).toBe(413);
+        expect(await res.json()).toEqual({ error: 'payload_too_large', maxBodyBytes: 64 });
+    });
+});
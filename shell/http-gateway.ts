@@ -0,0 +1,188 @@
+import { createServer, IncomingMessage, RequestListener, Server, ServerResponse } from "node:http";
+import { AnyCmd, Cause, CoreWf, defaultMsgEnv, DomainTrace, isFailure, Mod, Module, msgFactories, MsgEnv, safeParseTBox } from "../core";
+import { CmdHandlerCtx, handleCommand } from "./command-handler";
+import { EventStore, inMemoryEventStore } from "./event-store";
+import { idempotent, IdempotencyStore } from "./idempotency";
+
+type _AnyCoreWf = CoreWf<any, any, any, any, any, string>;
+type _AnyMod = Mod<AnyCmd, any, any, string>;
+
+/**
+ * The headers the gateway reads the domain trace from, and echoes back.
+ */
+export const TraceHeaders = {
+    correlationid: 'x-correlation-id',
+    causationid: 'x-causation-id',
+    commandid: 'x-command-id'
+} as const;
+
+/**
+ * The configuration of a command gateway.
+ * @template M The module type.
+ * @property streamId - Picks the stream a command applies to, e.g. `(cmd) => cmd.data.wasteId`.
+ * @property {EventStore} [store] - The event store, defaults to a new in-memory store so the gateway runs offline.
+ * @property {MsgEnv} [env] - The clock and ID generator used to build command envelopes.
+ * @property {number} [maxBodyBytes=1048576] - The largest accepted request body.
+ * @property {IdempotencyStore} [idempotency] - Remembers the outcomes of commands by ID, so retried requests don't run twice.
+ */
+export type GatewayCtx<M extends _AnyMod> = Omit<CmdHandlerCtx<_AnyCoreWf>, 'store' | 'evolve' | 'initialState'> & {
+    streamId: (cmd: M['cmds']) => string;
+    store?: EventStore<M['evts']>;
+    env?: MsgEnv;
+    maxBodyBytes?: number;
+    idempotency?: IdempotencyStore;
+};
+
+/**
+ * Thrown while reading a request body larger than the configured limit.
+ */
+class BodyTooLarge extends Error {}
+
+/**
+ * Reads the body of a request, up to a size limit. Past the limit, the rest of the body is drained and discarded,
+ * leaving the socket open so the 413 response reaches the client.
+ * @param {IncomingMessage} req - The request.
+ * @param {number} maxBytes - The size limit.
+ * @returns {Promise<string>} The body.
+ */
+const readBody = (req: IncomingMessage, maxBytes: number): Promise<string> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+            req.off('data', onData);
+            req.resume();
+            reject(new BodyTooLarge());
+            return;
+        }
+        chunks.push(chunk);
+    };
+    req.on('data', onData);
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+/**
+ * Writes a JSON response.
+ * @param {ServerResponse} res - The response.
+ * @param {number} status - The HTTP status.
+ * @param {unknown} body - The body.
+ * @param {Record<string, string>} [headers] - Extra headers.
+ */
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+/**
+ * Reads the domain trace of a command from the request headers. Missing IDs are filled in by `newCmd`.
+ * @param {IncomingMessage} req - The request.
+ * @returns {DomainTrace} The domain trace.
+ */
+const traceFromHeaders = (req: IncomingMessage): DomainTrace => {
+    const header = (name: string) => {
+        const value = req.headers[name];
+        return (Array.isArray(value) ? value[0] : value) || undefined;
+    };
+    return { correlationid: header(TraceHeaders.correlationid), causationid: header(TraceHeaders.causationid) };
+};
+
+/**
+ * Maps the failure of a handled command to an HTTP status:
+ * 409 for concurrency conflicts, 500 for storage errors, and 422 for business failures.
+ * @param {Cause<string>[]} cause - The causes of the failure.
+ * @returns {number} The HTTP status.
+ */
+const failureStatus = (cause: Cause<string>[]): number => {
+    const msgs = cause.map(c => c.msg);
+    if (msgs.includes('concurrency_conflict')) {
+        return 409;
+    }
+    if (msgs.some(msg => msg === 'event_store_error' || msg === 'idempotency_store_error' || msg.startsWith('upcast_') || msg === 'schema_version_unsupported')) {
+        return 500;
+    }
+    return 422;
+};
+
+/**
+ * Mounts the commands of a module as `POST /commands/:type` on a `node:http` request listener.
+ * The body is the command's data: it is wrapped in an envelope with `newCmd`, validated with the command's schema
+ * through `safeParseTBox`, then handled end to end with `handleCommand`.
+ * The correlation and causation IDs are read from the `x-correlation-id` and `x-causation-id` headers.
+ * A client retrying a request can send the same `x-command-id`: with an `idempotency` store configured, the retry
+ * gets the outcome of the first request back instead of running the command again.
+ * Responses: 200 with the emitted events, 400 with the parse issues for invalid bodies, 404 for unknown command types,
+ * 413 for bodies over `maxBodyBytes`, 422 with the causes for business failures, 409 for concurrency conflicts and 500 for storage errors.
+ * @template M The module type.
+ * @param {GatewayCtx<M>} ctx - The stream picker, event store and options of the gateway.
+ * @returns A function that takes the module and returns the request listener.
+ */
+export const commandGateway = <M extends _AnyMod>(ctx: GatewayCtx<M>) => (module: Module<M>): RequestListener => {
+    const store = ctx.store ?? inMemoryEventStore<M['evts']>();
+    const { newCmd } = msgFactories(ctx.env ?? defaultMsgEnv);
+    const maxBodyBytes = ctx.maxBodyBytes ?? 1024 * 1024;
+    const registrations = module.workflows as Record<string, { wf: _AnyCoreWf['wf'] }>;
+    const handlerCtx: CmdHandlerCtx<_AnyCoreWf> = { ...ctx, store, evolve: module.evolve, initialState: module.initialState };
+    const handle = (cmd: AnyCmd) => handleCommand(handlerCtx)(registrations[cmd.type].wf)(ctx.streamId(cmd as M['cmds']))(cmd);
+    const dispatch = ctx.idempotency
+        ? idempotent<AnyCmd>({ store: ctx.idempotency, key: (cmd) => `${cmd.type}/${cmd.id}` })(handle)
+        : handle;
+
+    return async (req, res) => {
+        const match = /^\/commands\/([^/?#]+)\/?(?:\?.*)?$/.exec(req.url ?? '');
+        if (!match) {
+            return sendJson(res, 404, { error: 'not_found' });
+        }
+        if (req.method !== 'POST') {
+            return sendJson(res, 405, { error: 'method_not_allowed' }, { allow: 'POST' });
+        }
+        let type: string;
+        try {
+            type = decodeURIComponent(match[1]);
+        } catch (e) {
+            return sendJson(res, 400, { error: 'malformed_path' });
+        }
+        const schema = Object.hasOwn(module.schemas.cmds, type) ? module.schemas.cmds[type] : undefined;
+        if (!Object.hasOwn(registrations, type) || !schema) {
+            return sendJson(res, 404, { error: 'invalid_command_type', type });
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(await readBody(req, maxBodyBytes));
+        } catch (e) {
+            return e instanceof BodyTooLarge
+                ? sendJson(res, 413, { error: 'payload_too_large', maxBodyBytes }, { connection: 'close' })
+                : sendJson(res, 400, { error: 'invalid_json' });
+        }
+
+        let headers: Record<string, string> = {};
+        try {
+            const cmdRes = newCmd(safeParseTBox<AnyCmd>(schema))(type)(traceFromHeaders(req))(data);
+            if (isFailure(cmdRes)) {
+                return sendJson(res, 400, { error: 'parse_error', issues: cmdRes.cause.map(c => c.data) });
+            }
+            const cmdId = req.headers[TraceHeaders.commandid];
+            const cmd = typeof cmdId === 'string' && cmdId ? { ...cmdRes.data, id: cmdId } : cmdRes.data;
+            headers = { [TraceHeaders.correlationid]: cmd.correlationid, [TraceHeaders.commandid]: cmd.id };
+
+            const handledRes = await dispatch(cmd);
+            if (isFailure(handledRes)) {
+                return sendJson(res, failureStatus(handledRes.cause), { error: 'command_failed', causes: handledRes.cause }, headers);
+            }
+            return sendJson(res, 200, { events: handledRes.data.events, version: handledRes.data.version }, headers);
+        } catch (e) {
+            return sendJson(res, 500, { error: 'internal_error' }, headers);
+        }
+    };
+};
+
+/**
+ * Creates a `node:http` server exposing the commands of a module, see `commandGateway`.
+ * @template M The module type.
+ * @param {GatewayCtx<M>} ctx - The stream picker, event store and options of the gateway.
+ * @returns A function that takes the module and returns the server, not yet listening.
+ */
+export const createCommandServer = <M extends _AnyMod>(ctx: GatewayCtx<M>) => (module: Module<M>): Server =>
+    createServer(commandGateway(ctx)(module));
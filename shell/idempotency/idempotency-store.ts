@@ -0,0 +1,46 @@
+import { AsyncResult, fail, Failure, Result } from "../../core";
+
+/**
+ * Type representing possible failure messages of the idempotency layer.
+ * - `idempotency_store_error`: the store couldn't read or write an outcome.
+ * - `idempotency_key_conflict`: the key was already used by a different command.
+ */
+export type IdempotencyFails = 'idempotency_store_error' | 'idempotency_key_conflict';
+
+/**
+ * The remembered outcome of a command.
+ * @template T The type of the outcome on success.
+ * @template F The type of failure messages.
+ * @property {string} key - The idempotency key.
+ * @property {string} fingerprint - Identifies the command the outcome belongs to, by type and data.
+ * @property outcome - The result of the command: the events on success, or the failure.
+ * @property {number} recordedAt - When the outcome was recorded, in milliseconds since the epoch.
+ */
+export type IdempotencyRecord<T, F extends string> = {
+    key: string;
+    fingerprint: string;
+    outcome: Result<T, F>;
+    recordedAt: number;
+};
+
+/**
+ * Port remembering the outcomes of commands by idempotency key.
+ * Adapters forget records once their retention period is over.
+ */
+export type IdempotencyStore = {
+    /**
+     * Gets the outcome recorded for a key, `undefined` if there is none or it expired.
+     */
+    get: <T, F extends string>(key: string) => AsyncResult<IdempotencyRecord<T, F> | undefined, IdempotencyFails>;
+    /**
+     * Records the outcome of a key, replacing any previous one, stamped with the time of the store's clock.
+     */
+    put: <T, F extends string>(record: Omit<IdempotencyRecord<T, F>, 'recordedAt'>) => AsyncResult<IdempotencyRecord<T, F>, IdempotencyFails>;
+};
+
+/**
+ * Wraps an unexpected storage error into an `idempotency_store_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<IdempotencyFails>} A failure result.
+ */
+export const idempotencyStoreError = (e: unknown): Failure<IdempotencyFails> => fail<IdempotencyFails>('idempotency_store_error', e);
@@ -0,0 +1,31 @@
+import { AnyCmd, succeed } from "../../core";
+import { idempotent } from "./idempotent";
+import { inMemoryIdempotencyStore } from "./in-memory";
+
+const cmd = (title: string): AnyCmd => ({ id: 'cmd-1', msgType: 'cmd', type: 'create-todo', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { title } });
+
+describe('idempotent', () => {
+    it('fails a command reusing the key of a different command that is still running', async () => {
+        let handled = 0;
+        const handle = idempotent({ store: inMemoryIdempotencyStore({ retentionMs: 60_000 }) })(async (c: AnyCmd) => {
+            handled++;
+            return succeed(c.data);
+        });
+
+        const [first, retry, conflicting] = await Promise.all([handle(cmd('milk')), handle(cmd('milk')), handle(cmd('bread'))]);
+
+        expect(first).toEqual(succeed({ title: 'milk' }));
+        expect(retry).toEqual(succeed({ title: 'milk' }));
+        expect(conflicting).toMatchObject({ outcome: 'failure', cause: [{ msg: 'idempotency_key_conflict', data: { key: 'cmd-1', type: 'create-todo' } }] });
+        expect(handled).toBe(1);
+    });
+
+    it('fails a command reusing the key of a recorded different command', async () => {
+        const handle = idempotent({ store: inMemoryIdempotencyStore({ retentionMs: 60_000 }) })(async (c: AnyCmd) => succeed(c.data));
+
+        await handle(cmd('milk'));
+        const conflicting = await handle(cmd('bread'));
+
+        expect(conflicting).toMatchObject({ outcome: 'failure', cause: [{ msg: 'idempotency_key_conflict' }] });
+    });
+});
@@ -0,0 +1,116 @@
+import { AnyCmd, AsyncResult, canonicalJson, fail, isFailure, Result } from "../../core";
+import { IdempotencyFails, IdempotencyStore } from "./idempotency-store";
+
+/**
+ * The failure messages that don't describe the command but the moment it ran: a retry may succeed,
+ * so their outcomes aren't remembered by default.
+ */
+export const transientFails: string[] = ['concurrency_conflict', 'event_store_error', 'idempotency_store_error'];
+
+/**
+ * The configuration of the idempotency layer.
+ * @template C The type of the command.
+ * @property {IdempotencyStore} store - Remembers the outcomes.
+ * @property key - The idempotency key of a command, defaults to its `id`: give retried commands the same `id`, or derive the key from the data.
+ * @property remember - Whether an outcome is recorded, defaults to every outcome except failures in `transientFails`.
+ */
+export type IdempotencyCtx<C extends AnyCmd> = {
+    store: IdempotencyStore;
+    key?: (cmd: C) => string;
+    remember?: (outcome: Result<unknown, string>) => boolean;
+};
+
+/**
+ * Details attached to an `idempotency_key_conflict` failure.
+ */
+export type IdempotencyKeyConflict = {
+    key: string;
+    type: string;
+};
+
+/**
+ * A command being handled: its fingerprint, and its outcome to come.
+ * @template T The type of the outcome on success.
+ * @template F The type of failure messages.
+ */
+type InFlight<T, F extends string> = {
+    fingerprint: string;
+    outcome: Promise<Result<T, F | IdempotencyFails>>;
+};
+
+/**
+ * Fails a command whose key was used by a command of another type or data.
+ * @param {string} key - The idempotency key.
+ * @param {AnyCmd} cmd - The command reusing the key.
+ * @returns The `idempotency_key_conflict` failure.
+ */
+const keyConflict = (key: string, cmd: AnyCmd) => {
+    const conflict: IdempotencyKeyConflict = { key, type: cmd.type };
+    return fail<IdempotencyFails>('idempotency_key_conflict', conflict);
+};
+
+/**
+ * Identifies a command by its type and data, whatever its envelope.
+ * @param {AnyCmd} cmd - The command.
+ * @returns {string} The fingerprint.
+ */
+const fingerprint = (cmd: AnyCmd): string => canonicalJson({ type: cmd.type, data: cmd.data });
+
+/**
+ * Whether an outcome is remembered by default: successes, and failures that aren't transient.
+ * @param {Result<unknown, string>} outcome - The outcome of a command.
+ * @returns {boolean} Whether to record it.
+ */
+const rememberOutcome = (outcome: Result<unknown, string>): boolean =>
+    !isFailure(outcome) || !outcome.cause.some(c => transientFails.includes(c.msg));
+
+/**
+ * Makes a command handler idempotent. The first command with a given key is handled and its outcome, events or failure,
+ * is recorded; a later command with the same key gets the recorded outcome back without running `decide` again,
+ * until the store's retention period is over. Reusing a key for a command of another type or data fails with
+ * `idempotency_key_conflict`, even while the first command is still running. Concurrent commands with the same key
+ * share the outcome of the first one.
+ * Recording is best effort: the command already ran, so a failing store doesn't turn its outcome into a failure.
+ * @template C The type of the command.
+ * @template T The type of the outcome on success, e.g. `HandledCmd<W>`.
+ * @template F The type of failure messages.
+ * @param {IdempotencyCtx<C>} ctx - The store, key and options.
+ * @returns A function that takes a command handler, e.g. `handleCommand(ctx)(wf)(streamId)`, and returns it idempotent.
+ */
+export const idempotent = <C extends AnyCmd>(ctx: IdempotencyCtx<C>) =>
+    <T, F extends string>(handle: (cmd: C) => AsyncResult<T, F>) => {
+        const inFlight = new Map<string, InFlight<T, F>>();
+        const keyOf = ctx.key ?? ((cmd: C) => cmd.id);
+        const remember = ctx.remember ?? rememberOutcome;
+
+        const run = async (key: string, cmd: C): AsyncResult<T, F | IdempotencyFails> => {
+            const getRes = await ctx.store.get<T, F>(key);
+            if (isFailure(getRes)) {
+                return getRes;
+            }
+            const recorded = getRes.data;
+            if (recorded) {
+                if (recorded.fingerprint !== fingerprint(cmd)) {
+                    return keyConflict(key, cmd);
+                }
+                return recorded.outcome;
+            }
+
+            const outcome = await handle(cmd);
+            if (remember(outcome)) {
+                await ctx.store.put<T, F>({ key, fingerprint: fingerprint(cmd), outcome });
+            }
+            return outcome;
+        };
+
+        return async (cmd: C): AsyncResult<T, F | IdempotencyFails> => {
+            const key = keyOf(cmd);
+            const pending = inFlight.get(key);
+            if (pending) {
+                return pending.fingerprint === fingerprint(cmd) ? pending.outcome : keyConflict(key, cmd);
+            }
+            const outcome = run(key, cmd).finally(() => inFlight.delete(key));
+            inFlight.set(key, { fingerprint: fingerprint(cmd), outcome });
+            return outcome;
+        };
+    };
@@ -0,0 +1,48 @@
+import { Clock, succeed } from "../../core";
+import { IdempotencyRecord, IdempotencyStore } from "./idempotency-store";
+
+/**
+ * The configuration of an in-memory idempotency store.
+ * @property {number} retentionMs - How long outcomes are remembered.
+ * @property {Clock} [clock] - The clock deciding when records expire, defaults to the system clock.
+ */
+export type InMemoryIdempotencyCtx = {
+    retentionMs: number;
+    clock?: Clock;
+};
+
+/**
+ * Creates an idempotency store kept in memory. Expired records are dropped when read, and swept on every write.
+ * @param {InMemoryIdempotencyCtx} ctx - The retention period and clock.
+ * @returns {IdempotencyStore} An in-memory idempotency store.
+ */
+export const inMemoryIdempotencyStore = (ctx: InMemoryIdempotencyCtx): IdempotencyStore => {
+    const records = new Map<string, IdempotencyRecord<unknown, string>>();
+    const clock = ctx.clock ?? Date.now;
+    const isExpired = (record: IdempotencyRecord<unknown, string>) => clock() - record.recordedAt >= ctx.retentionMs;
+
+    const get: IdempotencyStore['get'] = async <T, F extends string>(key: string) => {
+        const record = records.get(key);
+        if (record && isExpired(record)) {
+            records.delete(key);
+            return succeed(undefined);
+        }
+        return succeed(record && structuredClone(record) as IdempotencyRecord<T, F>);
+    };
+
+    const put: IdempotencyStore['put'] = async <T, F extends string>(entry: Omit<IdempotencyRecord<T, F>, 'recordedAt'>) => {
+        records.forEach((r, key) => {
+            if (isExpired(r)) {
+                records.delete(key);
+            }
+        });
+        const record: IdempotencyRecord<T, F> = { ...entry, recordedAt: clock() };
+        records.set(record.key, structuredClone(record));
+        return succeed(record);
+    };
+
+    return {
+        get,
+        put
+    };
+};
@@ -0,0 +1,3 @@
+export * from './idempotency-store'
+export * from './in-memory'
+export * from './idempotent'
@@ -1 +1,14 @@
-export * from './observability'
\ No newline at end of file
+export * from './observability'
+export * from './event-store'
+export * from './snapshots'
+export * from './aggregate-loader'
+export * from './command-handler'
+export * from './policy-runtime'
+export * from './projections'
+export * from './docs'
+export * from './http-gateway'
+export * from './bus'
+export * from './outbox'
+export * from './idempotency'
+export * from './scheduler'
+export * from './sagas'
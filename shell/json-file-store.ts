@@ -0,0 +1,71 @@
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { AsyncResult, Failure, succeed } from "../core";
+
+/**
+ * Saves, loads and removes values kept one per JSON file.
+ * @template T The type of the values.
+ * @template F The type of failure messages.
+ */
+export type JsonFileStore<T, F extends string> = {
+    /**
+     * Writes a value to a file, replacing it atomically, so a crash while saving leaves the previous value in place.
+     */
+    save: (filePath: string, value: T) => AsyncResult<T, F>;
+    /**
+     * Reads the value of a file, or `undefined` if there is no such file.
+     */
+    load: (filePath: string) => AsyncResult<T | undefined, F>;
+    /**
+     * Removes a file, if any.
+     */
+    remove: (filePath: string) => AsyncResult<void, F>;
+};
+
+/**
+ * Creates the JSON file storage shared by the file-based adapters. Directories are created on first save.
+ * @template T The type of the values.
+ * @template F The type of failure messages.
+ * @param {(e: unknown) => Failure<F>} storeError - Wraps an unexpected file system error into the adapter's failure.
+ * @returns {JsonFileStore<T, F>} The JSON file storage.
+ */
+export const jsonFileStore = <T, F extends string>(storeError: (e: unknown) => Failure<F>): JsonFileStore<T, F> => {
+    const save: JsonFileStore<T, F>['save'] = async (filePath, value) => {
+        try {
+            const tmpPath = `${filePath}.${process.pid}.tmp`;
+            await mkdir(dirname(filePath), { recursive: true });
+            await writeFile(tmpPath, JSON.stringify(value), 'utf8');
+            await rename(tmpPath, filePath);
+            return succeed(value);
+        } catch (e) {
+            return storeError(e);
+        }
+    };
+
+    const load: JsonFileStore<T, F>['load'] = async (filePath) => {
+        try {
+            const content = await readFile(filePath, 'utf8');
+            return succeed(JSON.parse(content) as T);
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+                return succeed(undefined);
+            }
+            return storeError(e);
+        }
+    };
+
+    const remove: JsonFileStore<T, F>['remove'] = async (filePath) => {
+        try {
+            await rm(filePath, { force: true });
+            return succeed(undefined);
+        } catch (e) {
+            return storeError(e);
+        }
+    };
+
+    return {
+        save,
+        load,
+        remove
+    };
+};
@@ -0,0 +1,108 @@
+import { AnyCmd, fail, succeed } from "../core";
+import { Attributes, Logger, Meter, ObsAttributes, observeAsync, observeSync, ObsMetrics, Span, SpanStatusCode, Tracer } from "./observability";
+
+type Recorded = { name: string; attributes?: Attributes; events: { name: string; attributes?: Attributes }[]; status?: unknown; ended: boolean };
+
+const recordingTracer = () => {
+    const spans: Recorded[] = [];
+    const tracer: Tracer = {
+        startActiveSpan: (name, options, fn) => {
+            const recorded: Recorded = { name, attributes: options.attributes, events: [], ended: false };
+            spans.push(recorded);
+            const span: Span = {
+                setAttributes: (attributes) => { recorded.attributes = { ...recorded.attributes, ...attributes }; },
+                addEvent: (eventName, attributes) => { recorded.events.push({ name: eventName, attributes }); },
+                setStatus: (status) => { recorded.status = status; },
+                recordException: () => undefined,
+                end: () => { recorded.ended = true; }
+            };
+            return fn(span);
+        }
+    };
+    return { spans, tracer };
+};
+
+const recordingLogger = () => {
+    const lines: [string, string, ...unknown[]][] = [];
+    const logger: Logger = {
+        info: (...args) => { lines.push(['info', ...args]); },
+        warn: (...args) => { lines.push(['warn', ...args]); },
+        error: (...args) => { lines.push(['error', ...args]); }
+    };
+    return { lines, logger };
+};
+
+const recordingMeter = () => {
+    const measures: [string, number, Attributes | undefined][] = [];
+    const meter: Meter = {
+        createCounter: (name) => ({ add: (value, attributes) => { measures.push([name, value, attributes]); } }),
+        createHistogram: (name) => ({ record: (value, attributes) => { measures.push([name, value, attributes]); } })
+    };
+    return { measures, meter };
+};
+
+const signUp: AnyCmd = { id: 'cmd-1', msgType: 'cmd', type: 'sign-up', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { user: { name: 'ada', password: 'secret' } } };
+
+describe('observeSync', () => {
+    it('starts a span through the tracer, with the message attributes and the outcome', () => {
+        const { spans, tracer } = recordingTracer();
+
+        const res = observeSync({ tracer })('sign-up')((cmd: AnyCmd) => succeed(cmd.id))(signUp);
+
+        expect(res).toEqual(succeed('cmd-1'));
+        expect(spans).toMatchObject([{
+            name: 'sign-up',
+            attributes: { [ObsAttributes.msgType]: 'sign-up', [ObsAttributes.msgKind]: 'cmd', [ObsAttributes.msgId]: 'cmd-1', [ObsAttributes.correlationid]: 'corr-1', [ObsAttributes.outcome]: 'success' },
+            status: { code: SpanStatusCode.OK },
+            ended: true
+        }]);
+    });
+
+    it('redacts nested fields in logs, span events and span attributes', () => {
+        const { spans, tracer } = recordingTracer();
+        const { lines, logger } = recordingLogger();
+
+        observeSync({ tracer, logger, redact: ['password'] })('sign-up')((cmd: AnyCmd) => succeed(cmd.data))(signUp);
+
+        const redacted = JSON.stringify(succeed({ user: { name: 'ada', password: '[REDACTED]' } }));
+        expect(spans[0].attributes?.[ObsAttributes.msgData]).toBe(JSON.stringify({ user: { name: 'ada', password: '[REDACTED]' } }));
+        expect(spans[0].events).toEqual([{ name: 'Result: success', attributes: { result: redacted } }]);
+        expect(lines).toEqual([['info', 'sign-up succeeded: ', redacted]]);
+    });
+
+    it('counts successes and failures, and records durations', () => {
+        const { measures, meter } = recordingMeter();
+        let now = 0;
+        const clock = () => now;
+        const observed = observeSync({ meter, clock })('sign-up')((cmd: AnyCmd) => {
+            now += 5;
+            return cmd.data.user ? succeed(cmd.id) : fail('no_user');
+        });
+
+        observed(signUp);
+        observed({ ...signUp, data: {} });
+
+        const attributes = { [ObsAttributes.workflow]: 'sign-up', [ObsAttributes.msgType]: 'sign-up' };
+        expect(measures).toEqual([
+            [ObsMetrics.successes, 1, attributes],
+            [ObsMetrics.duration, 5, { ...attributes, [ObsAttributes.outcome]: 'success' }],
+            [ObsMetrics.failures, 1, attributes],
+            [ObsMetrics.duration, 5, { ...attributes, [ObsAttributes.outcome]: 'failure' }]
+        ]);
+    });
+});
+
+describe('observeAsync', () => {
+    it('ends the span, logs and counts a thrown error, and throws it again', async () => {
+        const { spans, tracer } = recordingTracer();
+        const { lines, logger } = recordingLogger();
+        const { measures, meter } = recordingMeter();
+
+        const observed = observeAsync({ tracer, logger, meter })('sign-up')(async (_: AnyCmd) => { throw new Error('down'); });
+
+        await expect(observed(signUp)).rejects.toThrow('down');
+        expect(spans).toMatchObject([{ status: { code: SpanStatusCode.ERROR, message: 'down' }, ended: true }]);
+        expect(lines).toEqual([['error', 'sign-up threw: ', 'down']]);
+        expect(measures.map(([name]) => name)).toEqual([ObsMetrics.failures, ObsMetrics.duration]);
+    });
+});
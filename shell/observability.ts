@@ -1,121 +1,279 @@
-import { AsyncResult, isFailure, Result } from "../core";
+import { AsyncResult, Clock, isFailure, Msg, MsgType, Result } from "../core";
 
 /**
- * Observes a synchronous function execution and logs the result using a tracer and logger.
- * @template T The type of successful result data.
- * @template F The type of failure message.
- * @param {object} ctx - The execution context containing a tracer and a logger.
- * @param {any} ctx.tracer - The tracing utility.
- * @param {any} ctx.logger - The logging utility.
- * @returns A function that wraps a synchronous function with observation logic.
+ * The value of a span or metric attribute, as in OpenTelemetry.
  */
-const innerSync = <T, F extends string>(ctx: { tracer: any; logger: any }) => 
-    (msg: string) => 
-    (fn: Function) => 
-    (c: any) => 
-    (span: any): Result<T, F> => {
-        const res = fn(c) as Result<T, F>;
-        span.addEvent(`Result: ${res.outcome}`, JSON.stringify(res));
+export type AttributeValue = string | number | boolean | string[] | number[] | boolean[];
 
-        if (isFailure(res)) {
-            ctx.logger.warn(`${msg} failed: `, JSON.stringify(res));
-        } else {
-            ctx.logger.info(`${msg} succeeded: `, JSON.stringify(res));
-        }
+/**
+ * Span and metric attributes, as in OpenTelemetry.
+ */
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * The status codes of a span, with the values of OpenTelemetry's `SpanStatusCode`.
+ */
+export const SpanStatusCode = { UNSET: 0, OK: 1, ERROR: 2 } as const;
+
+/**
+ * The status of a span.
+ */
+export type SpanStatus = {
+    code: typeof SpanStatusCode[keyof typeof SpanStatusCode];
+    message?: string;
+};
+
+/**
+ * The subset of OpenTelemetry's `Span` used by the observers.
+ */
+export type Span = {
+    setAttributes: (attributes: Attributes) => unknown;
+    addEvent: (name: string, attributes?: Attributes) => unknown;
+    setStatus: (status: SpanStatus) => unknown;
+    recordException: (exception: Error | string) => void;
+    end: () => void;
+};
+
+/**
+ * The subset of OpenTelemetry's `Tracer` used by the observers; an OpenTelemetry tracer can be passed as is.
+ */
+export type Tracer = {
+    startActiveSpan: <R>(name: string, options: { attributes?: Attributes }, fn: (span: Span) => R) => R;
+};
+
+/**
+ * A logger taking a message and structured arguments, such as `console` or most logging libraries.
+ */
+export type Logger = {
+    info: (message: string, ...args: unknown[]) => void;
+    warn: (message: string, ...args: unknown[]) => void;
+    error: (message: string, ...args: unknown[]) => void;
+};
+
+/**
+ * The subset of OpenTelemetry's `Meter` used by the observers; an OpenTelemetry meter can be passed as is.
+ */
+export type Meter = {
+    createCounter: (name: string, options?: { description?: string; unit?: string }) => {
+        add: (value: number, attributes?: Attributes) => void;
+    };
+    createHistogram: (name: string, options?: { description?: string; unit?: string }) => {
+        record: (value: number, attributes?: Attributes) => void;
+    };
+};
+
+/**
+ * The observability context. Every part is optional: without a tracer no span is started,
+ * without a logger nothing is logged, and without a meter nothing is measured.
+ * @property {Tracer} [tracer] - Starts a span per observed call.
+ * @property {Logger} [logger] - Logs the result of every observed call.
+ * @property {Meter} [meter] - Counts successes and failures, and records durations, per observed function.
+ * @property {string[]} [redact] - Names of the fields replaced with `[REDACTED]`, at any depth, before payloads reach logs or spans.
+ * @property {Clock} [clock] - The clock used to measure durations, defaults to `performance.now`.
+ */
+export type ObservabilityCtx = {
+    tracer?: Tracer;
+    logger?: Logger;
+    meter?: Meter;
+    redact?: string[];
+    clock?: Clock;
+};
+
+/**
+ * The attribute keys set by the observers on spans and metrics.
+ */
+export const ObsAttributes = {
+    workflow: 'dc.workflow',
+    msgType: 'dc.message.type',
+    msgKind: 'dc.message.kind',
+    msgId: 'dc.message.id',
+    correlationid: 'dc.message.correlationid',
+    causationid: 'dc.message.causationid',
+    msgData: 'dc.message.data',
+    params: 'dc.params',
+    outcome: 'dc.result.outcome',
+    failures: 'dc.result.failures'
+} as const;
+
+/**
+ * The names of the metrics recorded by the observers.
+ */
+export const ObsMetrics = {
+    successes: 'dc.workflow.successes',
+    failures: 'dc.workflow.failures',
+    duration: 'dc.workflow.duration'
+} as const;
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Replaces the value of every field whose name is in the redaction list, at any depth.
+ * @param {string[]} fields - The names of the fields to redact.
+ * @returns A function that takes a value and returns a redacted copy.
+ */
+export const redact = (fields: string[]) => (value: unknown): unknown => {
+    if (fields.length === 0 || value === null || typeof value !== 'object') {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(redact(fields));
+    }
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, fields.includes(k) ? REDACTED : redact(fields)(v)]));
+};
 
-        span.end();
-        return res as Result<T, F>;
+/**
+ * The instruments created on a meter, created once per meter.
+ */
+type Instruments = {
+    successes: ReturnType<Meter['createCounter']>;
+    failures: ReturnType<Meter['createCounter']>;
+    duration: ReturnType<Meter['createHistogram']>;
+};
+
+const instrumentsByMeter = new WeakMap<Meter, Instruments>();
+
+/**
+ * Returns the instruments of a meter, creating them on first use.
+ * @param {Meter} meter - The meter.
+ * @returns {Instruments} The instruments.
+ */
+const instruments = (meter: Meter): Instruments => {
+    const cached = instrumentsByMeter.get(meter);
+    if (cached) {
+        return cached;
+    }
+    const created: Instruments = {
+        successes: meter.createCounter(ObsMetrics.successes, { description: 'Successful calls, by workflow' }),
+        failures: meter.createCounter(ObsMetrics.failures, { description: 'Failed calls, by workflow' }),
+        duration: meter.createHistogram(ObsMetrics.duration, { description: 'Duration of calls, by workflow', unit: 'ms' })
     };
+    instrumentsByMeter.set(meter, created);
+    return created;
+};
+
+/**
+ * Tells whether the input of an observed call is a message, i.e. an object with a `msgType` and a `type`.
+ * @param {unknown} c - The input of the call.
+ * @returns {boolean} True if the input is a message.
+ */
+const isMsg = (c: unknown): c is Msg<MsgType, string, unknown> =>
+    typeof c === 'object' && c !== null && 'msgType' in c && !!c.msgType && 'type' in c;
+
+/**
+ * Builds the span attributes of an observed call: the message type, kind, id, correlation and causation ids
+ * when the input is a message, and the redacted payload.
+ * @param {(value: unknown) => unknown} redactor - Redacts payloads.
+ * @returns A function that takes the input of the call and returns its attributes.
+ */
+const inputAttributes = (redactor: (value: unknown) => unknown) => (c: unknown): Attributes => {
+    if (isMsg(c)) {
+        return {
+            [ObsAttributes.msgType]: c.type,
+            [ObsAttributes.msgKind]: c.msgType,
+            [ObsAttributes.msgId]: c.id,
+            [ObsAttributes.correlationid]: c.correlationid,
+            [ObsAttributes.causationid]: c.causationid,
+            [ObsAttributes.msgData]: JSON.stringify(redactor(c.data))
+        };
+    }
+    return { [ObsAttributes.params]: JSON.stringify(redactor(c)) };
+};
 
 /**
- * Observes an asynchronous function execution and logs the result using a tracer and logger.
- * @template T The type of successful result data.
- * @template F The type of failure message.
- * @param {object} ctx - The execution context containing a tracer and a logger.
- * @param {any} ctx.tracer - The tracing utility.
- * @param {any} ctx.logger - The logging utility.
- * @returns A function that wraps an asynchronous function with observation logic.
+ * Settles an observed call: records the result on the span, logs it and measures it.
+ * @param {ObservabilityCtx} ctx - The observability context.
+ * @param {string} msg - The name of the observed function.
+ * @param {unknown} c - The input of the call.
+ * @param {Span} [span] - The span of the call, if tracing.
+ * @returns The functions to call with the result, or the thrown error, of the call.
  */
-const innerAsync = <T, F extends string>(ctx: { tracer: any; logger: any }) => 
-    (msg: string) => 
-    (fn: Function) => 
-    (c: any) => 
-    async (span: any): AsyncResult<T, F> => {
-        const res = await fn(c) as Result<T, F>;
-        span.addEvent(`Result: ${res.outcome}`, JSON.stringify(res));
+const observation = (ctx: ObservabilityCtx) => (msg: string) => (c: unknown) => (span?: Span) => {
+    const clock = ctx.clock ?? (() => performance.now());
+    const redactor = redact(ctx.redact ?? []);
+    const start = clock();
+    const metricAttributes: Attributes = { [ObsAttributes.workflow]: msg, [ObsAttributes.msgType]: isMsg(c) ? c.type : undefined };
+
+    const measure = (success: boolean) => {
+        if (ctx.meter) {
+            const i = instruments(ctx.meter);
+            (success ? i.successes : i.failures).add(1, metricAttributes);
+            i.duration.record(clock() - start, { ...metricAttributes, [ObsAttributes.outcome]: success ? 'success' : 'failure' });
+        }
+    };
+
+    const settle = <T, F extends string>(res: Result<T, F>): Result<T, F> => {
+        const logged = JSON.stringify(redactor(res));
+        const failures = isFailure(res) ? res.cause.map(cause => cause.msg) : [];
+        span?.setAttributes({ [ObsAttributes.outcome]: res.outcome, [ObsAttributes.failures]: failures });
+        span?.addEvent(`Result: ${res.outcome}`, { result: logged });
+        span?.setStatus(isFailure(res) ? { code: SpanStatusCode.ERROR, message: failures.join(', ') } : { code: SpanStatusCode.OK });
+        span?.end();
 
         if (isFailure(res)) {
-            ctx.logger.warn(`${msg} failed: `, JSON.stringify(res));
+            ctx.logger?.warn(`${msg} failed: `, logged);
         } else {
-            ctx.logger.info(`${msg} succeeded: `, JSON.stringify(res));
+            ctx.logger?.info(`${msg} succeeded: `, logged);
         }
+        measure(!isFailure(res));
+        return res;
+    };
 
-        span.end();
-        return res as Result<T, F>;
+    const crash = (e: unknown): never => {
+        span?.recordException(e instanceof Error ? e : String(e));
+        span?.setStatus({ code: SpanStatusCode.ERROR, message: e instanceof Error ? e.message : String(e) });
+        span?.end();
+        ctx.logger?.error(`${msg} threw: `, e instanceof Error ? e.message : String(e));
+        measure(false);
+        throw e;
     };
 
+    return { settle, crash };
+};
+
 /**
- * Wraps a synchronous function execution with logging and optional tracing.
- * @template T The type of successful result data.
- * @template F The type of failure message.
- * @param {object} ctx - The execution context containing a tracer and a logger.
- * @param {any} ctx.tracer - The tracing utility.
- * @param {any} ctx.logger - The logging utility.
- * @returns A function that observes a synchronous function execution.
- */
-export const observeSync = (ctx: { tracer: any; logger: any }) =>  
-    <T, F extends string>(msg: string) => 
-    (fn: Function) =>  
-    (c: any): Result<T, F> => {
-        if (!!ctx.tracer && !!ctx.logger.startActiveSpan && !!ctx.logger && ctx.logger.info && ctx.logger.warn) {
-            const attributes = !!c.msgType && c.msgType == 'cmd' && c.data
-                ? { ...c, data: JSON.stringify(c.data) }
-                : { params: JSON.stringify(c) };
-
-            const _inner = innerSync<T, F>(ctx)(msg)(fn)(c);
-            return ctx.tracer.startActiveSpan(msg, attributes, (span) => _inner(span));
-        } else if (!!ctx.logger && !!ctx.logger.info && ctx.logger.warn) {
-            const res = fn(c) as Result<T, F>;
-            if (isFailure(res)) {
-                ctx.logger.warn(`${msg} failed: `, JSON.stringify(res));
-            } else {
-                ctx.logger.info(`${msg} succeeded: `, JSON.stringify(res));
+ * Wraps a synchronous function execution with tracing, logging and metrics, as configured in the context.
+ * @param {ObservabilityCtx} ctx - The observability context.
+ * @returns A function that takes the name of the observed function, then the function, and returns the observed function.
+ */
+export const observeSync = (ctx: ObservabilityCtx) =>
+    (msg: string) =>
+    <C, T, F extends string>(fn: (c: C) => Result<T, F>) =>
+    (c: C): Result<T, F> => {
+        const run = (span?: Span): Result<T, F> => {
+            const o = observation(ctx)(msg)(c)(span);
+            try {
+                return o.settle(fn(c));
+            } catch (e) {
+                return o.crash(e);
             }
-            return res;
-        } else {
-            return fn(c) as Result<T, F>;
+        };
+        if (ctx.tracer) {
+            const attributes = inputAttributes(redact(ctx.redact ?? []))(c);
+            return ctx.tracer.startActiveSpan(msg, { attributes }, (span) => run(span));
         }
+        return run();
     };
 
 /**
- * Wraps an asynchronous function execution with logging and optional tracing.
- * @template T The type of successful result data.
- * @template F The type of failure message.
- * @param {object} ctx - The execution context containing a tracer and a logger.
- * @param {any} ctx.tracer - The tracing utility.
- * @param {any} ctx.logger - The logging utility.
- * @returns A function that observes an asynchronous function execution.
- */
-export const observeAsync = (ctx: { tracer: any; logger: any }) =>  
-    <T, F extends string>(msg: string) => 
-    (fn: Function) =>  
-    async (c: any): AsyncResult<T, F> => {
-        if (!!ctx.tracer && !!ctx.logger.startActiveSpan && !!ctx.logger && ctx.logger.info && ctx.logger.warn) {
-            const attributes = !!c.msgType && c.msgType == 'cmd' && c.data
-                ? { ...c, data: JSON.stringify(c.data) }
-                : { params: JSON.stringify(c) };
-
-            const _inner = innerAsync<T, F>(ctx)(msg)(fn)(c);
-            return await ctx.tracer.startActiveSpan(msg, attributes, async (span) => _inner(span));
-        } else if (!!ctx.logger && !!ctx.logger.info && ctx.logger.warn) {
-            const res = await fn(c) as Result<T, F>;
-            if (isFailure(res)) {
-                ctx.logger.warn(`${msg} failed: `, JSON.stringify(res));
-            } else {
-                ctx.logger.info(`${msg} succeeded: `, JSON.stringify(res));
+ * Wraps an asynchronous function execution with tracing, logging and metrics, as configured in the context.
+ * @param {ObservabilityCtx} ctx - The observability context.
+ * @returns A function that takes the name of the observed function, then the function, and returns the observed function.
+ */
+export const observeAsync = (ctx: ObservabilityCtx) =>
+    (msg: string) =>
+    <C, T, F extends string>(fn: (c: C) => Result<T, F> | AsyncResult<T, F>) =>
+    async (c: C): AsyncResult<T, F> => {
+        const run = async (span?: Span): AsyncResult<T, F> => {
+            const o = observation(ctx)(msg)(c)(span);
+            try {
+                return o.settle(await fn(c));
+            } catch (e) {
+                return o.crash(e);
             }
-            return res;
-        } else {
-            return await fn(c) as Result<T, F>;
+        };
+        if (ctx.tracer) {
+            const attributes = inputAttributes(redact(ctx.redact ?? []))(c);
+            return ctx.tracer.startActiveSpan(msg, { attributes }, (span) => run(span));
         }
+        return run();
     };
@@ -0,0 +1,48 @@
+import { AnyEvt, AsyncResult, fail, Failure } from "../../core";
+
+/**
+ * Type representing possible failure messages of a delivery log.
+ */
+export type DeliveryLogFails = 'delivery_log_error';
+
+/**
+ * The key a consumer uses to drop messages delivered more than once: the `id` of the message.
+ * @param {AnyEvt} evt - The message.
+ * @returns {string} The dedup key.
+ */
+export const dedupKey = (evt: AnyEvt): string => evt.id;
+
+/**
+ * The record of a delivered message.
+ * @property {string} dedupKey - The dedup key of the message.
+ * @property {number} position - The store position of the message.
+ */
+export type Delivery = {
+    dedupKey: string;
+    position: number;
+};
+
+/**
+ * Port recording which messages a relay has delivered, by relay name.
+ */
+export type DeliveryLog = {
+    /**
+     * Records a delivered message.
+     */
+    record: (relay: string, delivery: Delivery) => AsyncResult<Delivery, DeliveryLogFails>;
+    /**
+     * The store position of the last delivered message, 0 if none.
+     */
+    checkpoint: (relay: string) => AsyncResult<number, DeliveryLogFails>;
+    /**
+     * Whether the message with the given dedup key was delivered.
+     */
+    isDelivered: (relay: string, dedupKey: string) => AsyncResult<boolean, DeliveryLogFails>;
+};
+
+/**
+ * Wraps an unexpected storage error into a `delivery_log_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<DeliveryLogFails>} A failure result.
+ */
+export const deliveryLogError = (e: unknown): Failure<DeliveryLogFails> => fail<DeliveryLogFails>('delivery_log_error', e);
@@ -0,0 +1,94 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { succeed } from "../../core";
+import { Delivery, DeliveryLog, deliveryLogError } from "./delivery-log";
+
+type DeliveryRecord = Delivery & { relay: string };
+
+/**
+ * Reads the delivery records of a JSONL file. A missing file has no records, and a line torn by a crash
+ * during an append is skipped: its message counts as not delivered, and is delivered again.
+ * @param {string} filePath - The path of the JSONL file.
+ * @returns The delivery records, in append order.
+ */
+const readRecords = async (filePath: string): Promise<DeliveryRecord[]> => {
+    try {
+        const content = await readFile(filePath, 'utf8');
+        return content
+            .split('\n')
+            .filter(line => line.trim().length > 0)
+            .flatMap(line => {
+                try {
+                    return [JSON.parse(line) as DeliveryRecord];
+                } catch {
+                    return [];
+                }
+            });
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            return [];
+        }
+        throw e;
+    }
+};
+
+/**
+ * Tells whether the next append to a file must start with a newline, i.e. whether the file ends with a line torn by a crash.
+ * @param {string} filePath - The path of the file.
+ * @returns True if the file is neither missing, nor empty, nor ending with a newline.
+ */
+const endsWithTornLine = async (filePath: string): Promise<boolean> => {
+    try {
+        const content = await readFile(filePath, 'utf8');
+        return content.length > 0 && !content.endsWith('\n');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') {
+            return false;
+        }
+        throw e;
+    }
+};
+
+/**
+ * Creates a delivery log backed by an append-only JSONL file, one delivered message per line,
+ * to pair with the JSONL event store.
+ * @param {string} filePath - The path of the JSONL file. It is created on first record.
+ * @returns {DeliveryLog} A file-based delivery log.
+ */
+export const fileDeliveryLog = (filePath: string): DeliveryLog => {
+    const record: DeliveryLog['record'] = async (relay, delivery) => {
+        try {
+            const line: DeliveryRecord = { relay, ...delivery };
+            await mkdir(dirname(filePath), { recursive: true });
+            const separator = await endsWithTornLine(filePath) ? '\n' : '';
+            await appendFile(filePath, `${separator}${JSON.stringify(line)}\n`, 'utf8');
+            return succeed(delivery);
+        } catch (e) {
+            return deliveryLogError(e);
+        }
+    };
+
+    const checkpoint: DeliveryLog['checkpoint'] = async (relay) => {
+        try {
+            const records = await readRecords(filePath);
+            return succeed(records.filter(r => r.relay === relay).reduce((max, r) => Math.max(max, r.position), 0));
+        } catch (e) {
+            return deliveryLogError(e);
+        }
+    };
+
+    const isDelivered: DeliveryLog['isDelivered'] = async (relay, key) => {
+        try {
+            const records = await readRecords(filePath);
+            return succeed(records.some(r => r.relay === relay && r.dedupKey === key));
+        } catch (e) {
+            return deliveryLogError(e);
+        }
+    };
+
+    return {
+        record,
+        checkpoint,
+        isDelivered
+    };
+};
@@ -0,0 +1,29 @@
+import { succeed } from "../../core";
+import { Delivery, DeliveryLog } from "./delivery-log";
+
+/**
+ * Creates a delivery log kept in memory, to pair with the in-memory event store.
+ * @returns {DeliveryLog} An in-memory delivery log.
+ */
+export const inMemoryDeliveryLog = (): DeliveryLog => {
+    const deliveries = new Map<string, Map<string, Delivery>>();
+    const checkpoints = new Map<string, number>();
+
+    const record: DeliveryLog['record'] = async (relay, delivery) => {
+        const forRelay = deliveries.get(relay) ?? new Map<string, Delivery>();
+        forRelay.set(delivery.dedupKey, delivery);
+        deliveries.set(relay, forRelay);
+        checkpoints.set(relay, Math.max(checkpoints.get(relay) ?? 0, delivery.position));
+        return succeed(delivery);
+    };
+
+    const checkpoint: DeliveryLog['checkpoint'] = async (relay) => succeed(checkpoints.get(relay) ?? 0);
+
+    const isDelivered: DeliveryLog['isDelivered'] = async (relay, key) => succeed(deliveries.get(relay)?.has(key) ?? false);
+
+    return {
+        record,
+        checkpoint,
+        isDelivered
+    };
+};
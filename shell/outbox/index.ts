@@ -0,0 +1,4 @@
+export * from './delivery-log'
+export * from './in-memory'
+export * from './file'
+export * from './relay'
@@ -0,0 +1,67 @@
+import { appendFile, mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AnyEvt, fail, succeed } from "../../core";
+import { inMemoryEventStore, jsonlEventStore } from "../event-store";
+import { DeliveryLog } from "./delivery-log";
+import { fileDeliveryLog } from "./file";
+import { inMemoryDeliveryLog } from "./in-memory";
+import { OutboxEntry, outboxRelay } from "./relay";
+
+const evt = (id: string): AnyEvt => ({ id, msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} });
+
+const recordingPublisher = () => {
+    const published: OutboxEntry<AnyEvt>[] = [];
+    const publish = async (entry: OutboxEntry<AnyEvt>) => {
+        published.push(entry);
+        return succeed(entry);
+    };
+    return { published, publish };
+};
+
+describe('outboxRelay', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'outbox-'));
+    });
+
+    afterEach(() => rm(dir, { recursive: true, force: true }));
+
+    it.each([
+        ['in-memory', () => ({ store: inMemoryEventStore<AnyEvt>(), deliveries: inMemoryDeliveryLog() })],
+        ['file', () => ({ store: jsonlEventStore<AnyEvt>(join(dir, 'events.jsonl')), deliveries: fileDeliveryLog(join(dir, 'deliveries.jsonl')) })]
+    ])('redelivers with the same dedup key a message published before a crash could record it (%s)', async (_, ports) => {
+        const { store, deliveries } = ports();
+        await store.append('todo-1', [evt('evt-1'), evt('evt-2')], 0);
+        const crashing: DeliveryLog = { ...deliveries, record: async (relay, delivery) => delivery.position === 2 ? fail('delivery_log_error', 'crash') : deliveries.record(relay, delivery) };
+        const beforeCrash = recordingPublisher();
+        const afterCrash = recordingPublisher();
+
+        const crashedRes = await outboxRelay({ store, deliveries: crashing, publish: beforeCrash.publish })('bus').drain();
+        const resumedRes = await outboxRelay({ store, deliveries, publish: afterCrash.publish })('bus').drain();
+
+        expect(crashedRes.outcome).toBe('failure');
+        expect(beforeCrash.published.map(e => e.dedupKey)).toEqual(['evt-1', 'evt-2']);
+        expect(resumedRes).toMatchObject({ outcome: 'success', data: [{ position: 2 }] });
+        expect(afterCrash.published.map(e => e.dedupKey)).toEqual(['evt-2']);
+    });
+
+    it('redelivers with the same dedup key a message whose delivery record was torn by a crash', async () => {
+        const store = jsonlEventStore<AnyEvt>(join(dir, 'events.jsonl'));
+        const deliveriesPath = join(dir, 'deliveries.jsonl');
+        await store.append('todo-1', [evt('evt-1'), evt('evt-2')], 0);
+        await fileDeliveryLog(deliveriesPath).record('bus', { dedupKey: 'evt-1', position: 1 });
+        await appendFile(deliveriesPath, '{"relay":"bus","dedupKey":"evt-2","posi', 'utf8');
+        const { published, publish } = recordingPublisher();
+        const deliveries = fileDeliveryLog(deliveriesPath);
+
+        const firstRes = await outboxRelay({ store, deliveries, publish })('bus').drain();
+        const secondRes = await outboxRelay({ store, deliveries, publish })('bus').drain();
+
+        expect(firstRes).toMatchObject({ outcome: 'success', data: [{ position: 2 }] });
+        expect(published.map(e => e.dedupKey)).toEqual(['evt-2']);
+        expect(secondRes).toMatchObject({ outcome: 'success', data: [] });
+        expect(await deliveries.isDelivered('bus', 'evt-2')).toMatchObject({ outcome: 'success', data: true });
+    });
+});
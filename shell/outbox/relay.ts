@@ -0,0 +1,110 @@
+import { AnyEvt, AsyncResult, isFailure, succeed } from "../../core";
+import { Bus } from "../bus";
+import { EventStore, EventStoreFails, StoredEvt } from "../event-store";
+import { serialQueue } from "../serial-queue";
+import { dedupKey, DeliveryLog, DeliveryLogFails } from "./delivery-log";
+
+/**
+ * A message waiting in the outbox: a stored event, with the key consumers use to drop duplicates.
+ * @template E The type of the event.
+ */
+export type OutboxEntry<E extends AnyEvt> = StoredEvt<E> & {
+    dedupKey: string;
+};
+
+/**
+ * Publishes a message of the outbox, e.g. to a bus or a broker. A `Failure` stops the drain; the message is retried on the next one.
+ * @template E The type of the event.
+ */
+export type OutboxPublisher<E extends AnyEvt> = (entry: OutboxEntry<E>) => AsyncResult<unknown, string>;
+
+/**
+ * The ports an outbox relay needs.
+ * @template E A union type of the events.
+ * @property {EventStore<E>} store - The event store whose log is the outbox.
+ * @property {DeliveryLog} deliveries - Records the delivered messages.
+ * @property {OutboxPublisher<E>} publish - Publishes the messages.
+ */
+export type OutboxRelayCtx<E extends AnyEvt> = {
+    store: EventStore<E>;
+    deliveries: DeliveryLog;
+    publish: OutboxPublisher<E>;
+};
+
+/**
+ * Relays the outbox of an event store to a publisher.
+ * @template E A union type of the events.
+ * @property drain - Publishes, in store order, the messages appended since the last delivered one, and returns them.
+ * @property poll - Drains every `intervalMs` milliseconds, and returns a function that stops polling.
+ */
+export type OutboxRelay<E extends AnyEvt> = {
+    drain: () => AsyncResult<OutboxEntry<E>[], EventStoreFails | DeliveryLogFails | string>;
+    poll: (intervalMs: number) => () => void;
+};
+
+/**
+ * Creates an outbox relay. The outbox is the event store's own log: the events of a workflow are in the outbox
+ * as soon as, and only if, their stream append succeeds, so a crash after the append can't lose them.
+ * Delivery is at least once: a message is recorded as delivered after it is published, so a crash in between
+ * publishes it again on the next drain, with the same dedup key. Drains of the same relay never overlap.
+ * @template E A union type of the events.
+ * @param {OutboxRelayCtx<E>} ctx - The event store, delivery log and publisher.
+ * @returns A function that takes the name of the relay, under which deliveries are recorded, and returns the relay.
+ */
+export const outboxRelay = <E extends AnyEvt>(ctx: OutboxRelayCtx<E>) => (name: string): OutboxRelay<E> => {
+    const serialize = serialQueue();
+
+    const drain: OutboxRelay<E>['drain'] = () => serialize(async () => {
+        const checkpointRes = await ctx.deliveries.checkpoint(name);
+        if (isFailure(checkpointRes)) {
+            return checkpointRes;
+        }
+        const readRes = await ctx.store.readAll(checkpointRes.data);
+        if (isFailure(readRes)) {
+            return readRes;
+        }
+        const delivered: OutboxEntry<E>[] = [];
+        for (const stored of readRes.data) {
+            const entry: OutboxEntry<E> = { ...stored, dedupKey: dedupKey(stored.evt) };
+            const publishRes = await ctx.publish(entry);
+            if (isFailure(publishRes)) {
+                return publishRes;
+            }
+            const recordRes = await ctx.deliveries.record(name, { dedupKey: entry.dedupKey, position: entry.position });
+            if (isFailure(recordRes)) {
+                return recordRes;
+            }
+            delivered.push(entry);
+        }
+        return succeed(delivered);
+    });
+
+    const poll: OutboxRelay<E>['poll'] = (intervalMs) => {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let stopped = false;
+        const tick = async () => {
+            await drain().catch(() => undefined);
+            if (!stopped) {
+                timer = setTimeout(tick, intervalMs);
+            }
+        };
+        timer = setTimeout(tick, 0);
+        return () => {
+            stopped = true;
+            clearTimeout(timer);
+        };
+    };
+
+    return {
+        drain,
+        poll
+    };
+};
+
+/**
+ * A publisher sending the messages of the outbox to a message bus, envelope included.
+ * @template E A union type of the events.
+ * @param {Bus<E>} bus - The bus.
+ * @returns {OutboxPublisher<E>} The publisher.
+ */
+export const busPublisher = <E extends AnyEvt>(bus: Bus<E>): OutboxPublisher<E> => (entry) => bus.publish(entry.evt);
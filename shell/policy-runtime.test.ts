@@ -0,0 +1,36 @@
+import { firstValueFrom, of } from "rxjs";
+import { AnyCmd, AnyEvt, succeed } from "../core";
+import { PolicyRegistration, runPolicies } from "./policy-runtime";
+
+const evt: AnyEvt = { id: 'evt-1', msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: {} };
+const cmd: AnyCmd = { id: 'cmd-1', msgType: 'cmd', type: 'notify', timestamp: 1, correlationid: '', causationid: undefined, data: {} };
+
+const registration = (overrides: Partial<PolicyRegistration<any>>): PolicyRegistration<any> => ({
+    name: 'notify-owner',
+    on: 'todo-created',
+    loadState: async () => succeed({}),
+    policy: () => () => succeed(cmd),
+    ...overrides
+});
+
+const firstDeadLetter = (reg: PolicyRegistration<any>, dispatch = async (c: AnyCmd) => succeed(c)) =>
+    firstValueFrom(runPolicies<AnyEvt, AnyCmd>({ dispatch })([reg])(of(evt)).deadLetters$);
+
+describe('runPolicies', () => {
+    it('dead-letters an exception thrown while loading the state at the load-state stage', async () => {
+        const deadLetter = await firstDeadLetter(registration({ loadState: () => { throw new Error('down'); } }));
+        expect(deadLetter.stage).toBe('load-state');
+        expect(deadLetter.cause[0].msg).toBe('policy_runtime_error');
+    });
+
+    it('dead-letters an exception thrown by the policy at the policy stage', async () => {
+        const deadLetter = await firstDeadLetter(registration({ policy: () => () => { throw new Error('bug'); } }));
+        expect(deadLetter.stage).toBe('policy');
+    });
+
+    it('dead-letters an exception thrown while dispatching at the dispatch stage, with the command', async () => {
+        const deadLetter = await firstDeadLetter(registration({}), () => { throw new Error('down'); });
+        expect(deadLetter.stage).toBe('dispatch');
+        expect(deadLetter.cmd).toMatchObject({ type: 'notify', causationid: 'evt-1', correlationid: 'corr-1' });
+    });
+});
@@ -0,0 +1,173 @@
+import { concatMap, Observable, Subject, Subscription } from "rxjs";
+import { AnyCmd, AnyEvt, AsyncResult, Cause, CorePy, dtFromMsg, isFailure } from "../core";
+
+type _AnyCorePy = CorePy<any, any, any, string>;
+
+/**
+ * Type representing failure messages raised by the policy runtime itself.
+ */
+export type PolicyRuntimeFails = 'policy_runtime_error';
+
+/**
+ * A policy registered to react to one event type.
+ * @template P The policy type.
+ * @property {string} name - The name of the policy, reported in dead letters.
+ * @property {string} on - The event type the policy reacts to.
+ * @property loadState - Loads the state the policy needs to decide, given the event.
+ * @property policy - The composed policy, as returned by `composePy` or `composePyAsync`.
+ */
+export type PolicyRegistration<P extends _AnyCorePy> = {
+    name: string;
+    on: P['evt']['type'];
+    loadState: (evt: P['evt']) => AsyncResult<P['state'], P['fails']>;
+    policy: P['compose'] | P['composeAsync'];
+};
+
+/**
+ * Identity helper that infers the types of a policy registration.
+ * @template P The policy type.
+ * @param {PolicyRegistration<P>} registration - The policy registration.
+ * @returns {PolicyRegistration<P>} The same registration.
+ */
+export const registerPolicy = <P extends _AnyCorePy>(registration: PolicyRegistration<P>): PolicyRegistration<P> => registration;
+
+/**
+ * The stage of the policy run at which a dead letter was produced.
+ */
+export type PolicyStage = 'load-state' | 'policy' | 'dispatch';
+
+/**
+ * A policy run that did not end with a dispatched command.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ */
+export type PolicyDeadLetter<E extends AnyEvt, C extends AnyCmd> = {
+    policy: string;
+    stage: PolicyStage;
+    evt: E;
+    cmd?: C;
+    cause: Cause<string>[];
+};
+
+/**
+ * A command dispatched by a policy, together with the event that caused it.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ */
+export type PolicyDispatch<E extends AnyEvt, C extends AnyCmd> = {
+    policy: string;
+    evt: E;
+    cmd: C;
+};
+
+/**
+ * The ports the policy runtime needs.
+ * @template C The type of the command.
+ */
+export type PolicyRuntimeCtx<C extends AnyCmd> = {
+    dispatch: (cmd: C) => AsyncResult<unknown, string>;
+};
+
+/**
+ * A running policy runtime.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ */
+export type PolicyRuntime<E extends AnyEvt, C extends AnyCmd> = {
+    dispatched$: Observable<PolicyDispatch<E, C>>;
+    deadLetters$: Observable<PolicyDeadLetter<E, C>>;
+    stop: () => void;
+};
+
+/**
+ * The outcome of running one policy for one event.
+ */
+type PolicyOutcome<E extends AnyEvt, C extends AnyCmd> =
+    | { _tag: 'dispatched'; dispatch: PolicyDispatch<E, C> }
+    | { _tag: 'dead-letter'; deadLetter: PolicyDeadLetter<E, C> };
+
+/**
+ * Runs one policy for one event: loads its state, runs the policy and dispatches the resulting command.
+ * The command is traced back to the event through `dtFromMsg`.
+ * A thrown exception is dead-lettered at the stage that threw it.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ * @param {PolicyRuntimeCtx<C>} ctx - The command dispatcher.
+ * @returns A function that takes a policy registration and an event, and returns the outcome of the run.
+ */
+const runPolicy = <E extends AnyEvt, C extends AnyCmd>(ctx: PolicyRuntimeCtx<C>) =>
+    (registration: PolicyRegistration<any>) =>
+    async (evt: E): Promise<PolicyOutcome<E, C>> => {
+        const deadLetter = (stage: PolicyStage, cause: Cause<string>[], cmd?: C): PolicyOutcome<E, C> =>
+            ({ _tag: 'dead-letter', deadLetter: { policy: registration.name, stage, evt, cmd, cause } });
+        let stage: PolicyStage = 'load-state';
+        let cmd: C | undefined;
+        try {
+            const stateRes = await registration.loadState(evt);
+            if (isFailure(stateRes)) {
+                return deadLetter(stage, stateRes['cause']);
+            }
+            stage = 'policy';
+            const policyRes = await registration.policy(evt)(stateRes['data']);
+            if (isFailure(policyRes)) {
+                return deadLetter(stage, policyRes['cause']);
+            }
+            stage = 'dispatch';
+            cmd = { ...policyRes['data'], ...dtFromMsg(evt) };
+            const dispatchRes = await ctx.dispatch(cmd);
+            if (isFailure(dispatchRes)) {
+                return deadLetter(stage, dispatchRes['cause'], cmd);
+            }
+            return { _tag: 'dispatched', dispatch: { policy: registration.name, evt, cmd } };
+        } catch (e) {
+            return deadLetter(stage, [{ msg: 'policy_runtime_error', data: e }], cmd);
+        }
+    };
+
+/**
+ * Subscribes a set of policies to an event stream.
+ * Each event is routed to the policies registered for its `type`; events are processed one at a time, in order.
+ * Successful runs are published on `dispatched$`, every other outcome on `deadLetters$`, so no failure is dropped.
+ * Processing is asynchronous: subscribers attached right after the call receive every outcome.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ * @param {PolicyRuntimeCtx<C>} ctx - The command dispatcher.
+ * @returns A function that takes the policies and the event stream, and returns the running runtime.
+ */
+export const runPolicies = <E extends AnyEvt, C extends AnyCmd>(ctx: PolicyRuntimeCtx<C>) =>
+    (policies: PolicyRegistration<any>[]) =>
+    (events$: Observable<E>): PolicyRuntime<E, C> => {
+        const routes = policies.reduce((acc, p) => acc.set(p.on, [...(acc.get(p.on) ?? []), p]), new Map<string, PolicyRegistration<any>[]>());
+        const dispatched$ = new Subject<PolicyDispatch<E, C>>();
+        const deadLetters$ = new Subject<PolicyDeadLetter<E, C>>();
+
+        const handleEvt = async (evt: E) => {
+            for (const registration of routes.get(evt.type) ?? []) {
+                const outcome = await runPolicy<E, C>(ctx)(registration)(evt);
+                if (outcome._tag === 'dead-letter') {
+                    deadLetters$.next(outcome.deadLetter);
+                } else {
+                    dispatched$.next(outcome.dispatch);
+                }
+            }
+        };
+
+        const subscription: Subscription = events$
+            .pipe(concatMap(handleEvt))
+            .subscribe({
+                error: (e) => {
+                    dispatched$.error(e);
+                    deadLetters$.error(e);
+                },
+                complete: () => {
+                    dispatched$.complete();
+                    deadLetters$.complete();
+                }
+            });
+
+        return {
+            dispatched$: dispatched$.asObservable(),
+            deadLetters$: deadLetters$.asObservable(),
+            stop: () => subscription.unsubscribe()
+        };
+    };
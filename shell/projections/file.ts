@@ -0,0 +1,21 @@
+import { join } from "node:path";
+import { jsonFileStore } from "../json-file-store";
+import { ProjectionState, ViewStore, ViewStoreFails, viewStoreError } from "./view-store";
+
+/**
+ * Creates a view store that writes the state of each projection to its own JSON file.
+ * Files are replaced atomically, so a crash while saving leaves the previous view and checkpoint in place.
+ * @template V The type of the view.
+ * @param {string} dirPath - The directory holding the view files. It is created on first save.
+ * @returns {ViewStore<V>} A file-based view store.
+ */
+export const fileViewStore = <V>(dirPath: string): ViewStore<V> => {
+    const files = jsonFileStore<ProjectionState<V>, ViewStoreFails>(viewStoreError);
+    const fileOf = (projection: string) => join(dirPath, `${encodeURIComponent(projection)}.json`);
+
+    return {
+        save: (projection, state) => files.save(fileOf(projection), state),
+        load: (projection) => files.load(fileOf(projection)),
+        remove: (projection) => files.remove(fileOf(projection))
+    };
+};
@@ -0,0 +1,32 @@
+import { succeed } from "../../core";
+import { ProjectionState, ViewStore } from "./view-store";
+
+/**
+ * Creates a view store that keeps projection states in memory.
+ * @template V The type of the view.
+ * @returns {ViewStore<V>} An in-memory view store.
+ */
+export const inMemoryViewStore = <V>(): ViewStore<V> => {
+    const states = new Map<string, ProjectionState<V>>();
+
+    const save: ViewStore<V>['save'] = async (projection, state) => {
+        states.set(projection, structuredClone(state));
+        return succeed(state);
+    };
+
+    const load: ViewStore<V>['load'] = async (projection) => {
+        const state = states.get(projection);
+        return succeed(state === undefined ? undefined : structuredClone(state));
+    };
+
+    const remove: ViewStore<V>['remove'] = async (projection) => {
+        states.delete(projection);
+        return succeed(undefined);
+    };
+
+    return {
+        save,
+        load,
+        remove
+    };
+};
@@ -0,0 +1,4 @@
+export * from './view-store'
+export * from './in-memory'
+export * from './file'
+export * from './runner'
@@ -0,0 +1,49 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defineProjection, EVT } from "../../core";
+import { inMemoryEventStore } from "../event-store";
+import { fileViewStore } from "./file";
+import { projectionRunner } from "./runner";
+
+type ToDoCreated = EVT<'todo-created', { title: string }>;
+
+const toDoCreated = (title: string): ToDoCreated => ({ id: `evt-${title}`, msgType: 'evt', type: 'todo-created', timestamp: 1, correlationid: 'corr-1', causationid: undefined, data: { title } });
+const titles = defineProjection<ToDoCreated, string[]>('titles')([])({
+    'todo-created': (evt) => (view) => [...view, evt.data.title]
+});
+
+describe('projectionRunner', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+        dir = await mkdtemp(join(tmpdir(), 'views-'));
+    });
+
+    afterEach(() => rm(dir, { recursive: true, force: true }));
+
+    it('resumes from the saved checkpoint after a restart', async () => {
+        const store = inMemoryEventStore<ToDoCreated>();
+        await store.append('todo-1', [toDoCreated('milk')], 0);
+        await store.append('todo-2', [toDoCreated('bread')], 0);
+        await projectionRunner({ store, views: fileViewStore<string[]>(dir) })(titles).catchUp();
+        await store.append('todo-3', [toDoCreated('eggs')], 0);
+
+        const restarted = projectionRunner({ store, views: fileViewStore<string[]>(dir) })(titles);
+
+        expect(await restarted.catchUp()).toEqual({ outcome: 'success', data: { view: ['milk', 'bread', 'eggs'], checkpoint: 3 } });
+        expect(await restarted.catchUp()).toEqual({ outcome: 'success', data: { view: ['milk', 'bread', 'eggs'], checkpoint: 3 } });
+    });
+
+    it('rebuilds the view from the first event, dropping the saved one', async () => {
+        const store = inMemoryEventStore<ToDoCreated>();
+        await store.append('todo-1', [toDoCreated('milk'), toDoCreated('bread')], 0);
+        const views = fileViewStore<string[]>(dir);
+        await views.save('titles', { view: ['stale'], checkpoint: 1 });
+
+        const res = await projectionRunner({ store, views })(titles).rebuild();
+
+        expect(res).toEqual({ outcome: 'success', data: { view: ['milk', 'bread'], checkpoint: 2 } });
+        expect(await views.load('titles')).toEqual(res);
+    });
+});
@@ -0,0 +1,71 @@
+import { AnyEvt, AsyncResult, isFailure, Projection, succeed } from "../../core";
+import { EventStore, EventStoreFails } from "../event-store";
+import { serialQueue } from "../serial-queue";
+import { ProjectionState, ViewStore, ViewStoreFails } from "./view-store";
+
+/**
+ * The ports a projection runner needs.
+ * @template E A union type of the events.
+ * @template V The type of the view.
+ */
+export type ProjectionRunnerCtx<E extends AnyEvt, V> = {
+    store: EventStore<E>;
+    views: ViewStore<V>;
+};
+
+/**
+ * Runs a projection against an event store.
+ * @template V The type of the view.
+ * @property catchUp - Applies the events recorded since the checkpoint, then saves the view with the new checkpoint.
+ * @property rebuild - Drops the saved view and checkpoint, then catches up from the first event.
+ */
+export type ProjectionRunner<V> = {
+    catchUp: () => AsyncResult<ProjectionState<V>, EventStoreFails | ViewStoreFails>;
+    rebuild: () => AsyncResult<ProjectionState<V>, EventStoreFails | ViewStoreFails>;
+};
+
+/**
+ * Creates a runner for a projection. The checkpoint is persisted with the view,
+ * so after a restart the runner resumes from the last event it applied. Runs of the same runner never overlap.
+ * @template E A union type of the events.
+ * @template V The type of the view.
+ * @param {ProjectionRunnerCtx<E, V>} ctx - The event store and the view store.
+ * @returns A function that takes a projection and returns its runner.
+ */
+export const projectionRunner = <E extends AnyEvt, V>(ctx: ProjectionRunnerCtx<E, V>) =>
+    (projection: Projection<E, V>): ProjectionRunner<V> => {
+        const serialize = serialQueue();
+
+        const applyNewEvents = async (): AsyncResult<ProjectionState<V>, EventStoreFails | ViewStoreFails> => {
+            const loadRes = await ctx.views.load(projection.name);
+            if (isFailure(loadRes)) {
+                return loadRes;
+            }
+            const current = loadRes.data ?? { view: projection.initialView, checkpoint: 0 };
+            const readRes = await ctx.store.readAll(current.checkpoint);
+            if (isFailure(readRes)) {
+                return readRes;
+            }
+            const stored = readRes.data;
+            if (stored.length === 0) {
+                return succeed(current);
+            }
+            const view = stored.reduce((v, s) => projection.project(s.evt)(v), current.view);
+            return ctx.views.save(projection.name, { view, checkpoint: stored[stored.length - 1].position });
+        };
+
+        const catchUp: ProjectionRunner<V>['catchUp'] = () => serialize(applyNewEvents);
+
+        const rebuild: ProjectionRunner<V>['rebuild'] = () => serialize(async () => {
+            const removeRes = await ctx.views.remove(projection.name);
+            if (isFailure(removeRes)) {
+                return removeRes;
+            }
+            return applyNewEvents();
+        });
+
+        return {
+            catchUp,
+            rebuild
+        };
+    };
@@ -0,0 +1,42 @@
+import { AsyncResult, fail, Failure } from "../../core";
+
+/**
+ * Type representing possible failure messages of a view store.
+ */
+export type ViewStoreFails = 'view_store_error';
+
+/**
+ * The persisted state of a projection: its view, and the store position of the last event applied to it.
+ * They are saved together, so the checkpoint always matches the view.
+ * @template V The type of the view.
+ */
+export type ProjectionState<V> = {
+    view: V;
+    checkpoint: number;
+};
+
+/**
+ * Port for saving and loading projection states, by projection name.
+ * @template V The type of the view.
+ */
+export type ViewStore<V> = {
+    /**
+     * Saves the state of a projection, replacing the previous one.
+     */
+    save: (projection: string, state: ProjectionState<V>) => AsyncResult<ProjectionState<V>, ViewStoreFails>;
+    /**
+     * Loads the state of a projection, or `undefined` if it never ran.
+     */
+    load: (projection: string) => AsyncResult<ProjectionState<V> | undefined, ViewStoreFails>;
+    /**
+     * Removes the state of a projection, if any.
+     */
+    remove: (projection: string) => AsyncResult<void, ViewStoreFails>;
+};
+
+/**
+ * Wraps an unexpected storage error into a `view_store_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<ViewStoreFails>} A failure result.
+ */
+export const viewStoreError = (e: unknown): Failure<ViewStoreFails> => fail<ViewStoreFails>('view_store_error', e);
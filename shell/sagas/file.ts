@@ -0,0 +1,20 @@
+import { join } from "node:path";
+import { AsyncResult, map } from "../../core";
+import { jsonFileStore } from "../json-file-store";
+import { SagaInstance, SagaStore, SagaStoreFails, sagaStoreError } from "./saga-store";
+
+/**
+ * Creates a saga store that writes each instance to its own JSON file, in one directory per saga.
+ * Files are replaced atomically, so a crash while saving leaves the previous state in place.
+ * @param {string} dirPath - The directory holding the saga directories. It is created on first save.
+ * @returns {SagaStore} A file-based saga store.
+ */
+export const fileSagaStore = (dirPath: string): SagaStore => {
+    const files = jsonFileStore<SagaInstance<unknown>, SagaStoreFails>(sagaStoreError);
+    const fileOf = (saga: string, id: string) => join(dirPath, encodeURIComponent(saga), `${encodeURIComponent(id)}.json`);
+
+    return {
+        save: async <S>(instance: SagaInstance<S>) => map(() => instance)(await files.save(fileOf(instance.saga, instance.id), instance)),
+        load: <S>(saga: string, id: string) => files.load(fileOf(saga, id)) as AsyncResult<SagaInstance<S> | undefined, SagaStoreFails>
+    };
+};
@@ -0,0 +1,27 @@
+import { succeed } from "../../core";
+import { SagaInstance, SagaStore } from "./saga-store";
+
+/**
+ * Creates a saga store that keeps instances in memory.
+ * Instances are copied on the way in and out, so callers can't mutate stored state.
+ * @returns {SagaStore} An in-memory saga store.
+ */
+export const inMemorySagaStore = (): SagaStore => {
+    const instances = new Map<string, SagaInstance<unknown>>();
+    const keyOf = (saga: string, id: string) => JSON.stringify([saga, id]);
+
+    const save: SagaStore['save'] = async (instance) => {
+        instances.set(keyOf(instance.saga, instance.id), structuredClone(instance));
+        return succeed(instance);
+    };
+
+    const load: SagaStore['load'] = async <S>(saga: string, id: string) => {
+        const instance = instances.get(keyOf(saga, id));
+        return succeed(instance && structuredClone(instance) as SagaInstance<S>);
+    };
+
+    return {
+        save,
+        load
+    };
+};
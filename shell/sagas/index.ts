@@ -0,0 +1,4 @@
+export * from './saga-store'
+export * from './in-memory'
+export * from './file'
+export * from './runtime'
@@ -0,0 +1,154 @@
+import { firstValueFrom, Subject } from "rxjs";
+import { AnyCmd, AnyEvt, CMD, defineSaga, EVT, fail, succeed } from "../../core";
+import { inMemoryScheduler } from "../scheduler";
+import { inMemorySagaStore } from "./in-memory";
+import { runSagas, SagaRuntimeCtx } from "./runtime";
+
+type ApprovalRequested = EVT<'approval-requested', { id: string }>;
+type ApprovalGranted = EVT<'approval-granted', { id: string }>;
+type ApprovalEvt = ApprovalRequested | ApprovalGranted;
+type Escalate = CMD<'escalate', { id: string }>;
+
+const HOUR = 60 * 60 * 1000;
+
+const requested = (id: string, evtId = `evt-${id}`): ApprovalRequested =>
+    ({ id: evtId, msgType: 'evt', type: 'approval-requested', timestamp: 1, correlationid: `corr-${id}`, causationid: undefined, data: { id } });
+const granted = (id: string): ApprovalGranted =>
+    ({ id: `evt-${id}-granted`, msgType: 'evt', type: 'approval-granted', timestamp: 2, correlationid: `corr-${id}`, causationid: undefined, data: { id } });
+const escalate = (id: string): Escalate =>
+    ({ id: `cmd-${id}`, msgType: 'cmd', type: 'escalate', timestamp: 1, correlationid: '', causationid: undefined, data: { id } });
+
+const approval = (options: { cancelOnGrant: boolean }) => defineSaga<ApprovalEvt, { granted: boolean }, Escalate>('approval')({
+    on: ['approval-requested', 'approval-granted'],
+    correlate: (e) => e.data.id,
+    initialState: { granted: false },
+    evolve: (e) => (state) => ({ granted: state.granted || e.type === 'approval-granted' }),
+    react: (e) => () => succeed(e.type === 'approval-requested'
+        ? { schedule: [{ key: 'escalation', delayMs: 48 * HOUR, cmd: escalate(e.data.id) }] }
+        : { cancel: options.cancelOnGrant ? ['escalation'] : [] }),
+    isDone: (state) => state.granted
+});
+
+const setup = (options = { cancelOnGrant: true }, ports: Partial<SagaRuntimeCtx<Escalate>> = {}) => {
+    const events$ = new Subject<ApprovalEvt>();
+    const scheduler = inMemoryScheduler<Escalate>();
+    const dispatched: Escalate[] = [];
+    const ctx: SagaRuntimeCtx<Escalate> = {
+        store: inMemorySagaStore(),
+        scheduler,
+        dispatch: async (cmd) => {
+            dispatched.push(cmd);
+            return succeed(cmd);
+        },
+        ...ports
+    };
+    const runtime = runSagas<ApprovalEvt, Escalate>(ctx)([approval(options)])(events$);
+    const publish = async (evt: ApprovalEvt) => {
+        events$.next(evt);
+        await runtime.idle();
+    };
+    const advance = async (ms: number) => {
+        scheduler.advance(ms);
+        await runtime.idle();
+    };
+    return { runtime, scheduler, dispatched, publish, advance };
+};
+
+describe('runSagas', () => {
+    it('dispatches a scheduled command once the virtual clock reaches its due date, caused by the event', async () => {
+        const { dispatched, publish, advance } = setup();
+
+        await publish(requested('a'));
+        await advance(47 * HOUR);
+        expect(dispatched).toEqual([]);
+        await advance(HOUR);
+
+        expect(dispatched).toEqual([{ ...escalate('a'), correlationid: 'corr-a', causationid: 'evt-a' }]);
+    });
+
+    it('does not dispatch a cancelled timer', async () => {
+        const { scheduler, dispatched, publish, advance } = setup();
+
+        await publish(requested('a'));
+        await publish(granted('a'));
+        await advance(48 * HOUR);
+
+        expect(scheduler.pending()).toEqual([]);
+        expect(dispatched).toEqual([]);
+    });
+
+    it('replaces a timer scheduled again with the same key', async () => {
+        const { scheduler, dispatched, publish, advance } = setup();
+
+        await publish(requested('a', 'evt-1'));
+        await advance(24 * HOUR);
+        await publish(requested('a', 'evt-2'));
+        expect(scheduler.pending()).toMatchObject([{ dueAt: 72 * HOUR }]);
+        await advance(24 * HOUR);
+        expect(dispatched).toEqual([]);
+        await advance(24 * HOUR);
+
+        expect(dispatched).toMatchObject([{ type: 'escalate', causationid: 'evt-2' }]);
+    });
+
+    it('does not dispatch the timers of an instance that is done, nor react to its later events', async () => {
+        const { scheduler, dispatched, publish, advance } = setup({ cancelOnGrant: false });
+
+        await publish(requested('a'));
+        await publish(granted('a'));
+        await publish(requested('a', 'evt-late'));
+        expect(scheduler.pending()).toMatchObject([{ dueAt: 48 * HOUR }]);
+        await advance(48 * HOUR);
+
+        expect(dispatched).toEqual([]);
+    });
+
+    it.each([
+        ['load-state', { store: { ...inMemorySagaStore(), load: () => { throw new Error('down'); } } }],
+        ['save', { store: { ...inMemorySagaStore(), save: () => { throw new Error('down'); } } }],
+        ['schedule', { scheduler: { ...inMemoryScheduler<Escalate>(), schedule: () => { throw new Error('down'); } } }]
+    ] as [string, Partial<SagaRuntimeCtx<Escalate>>][])('dead-letters an exception thrown at the %s stage with the instance', async (stage, ports) => {
+        const { runtime, publish } = setup(undefined, ports);
+        const deadLetter = firstValueFrom(runtime.deadLetters$);
+
+        await publish(requested('a'));
+
+        expect(await deadLetter).toMatchObject({ saga: 'approval', instance: 'a', stage, evt: { id: 'evt-a' }, cause: [{ msg: 'saga_runtime_error' }] });
+    });
+
+    it('dead-letters an exception thrown while dispatching a timer at the dispatch stage', async () => {
+        const { runtime, publish, advance } = setup(undefined, { dispatch: () => { throw new Error('down'); } });
+        const deadLetter = firstValueFrom(runtime.deadLetters$);
+
+        await publish(requested('a'));
+        await advance(48 * HOUR);
+
+        expect(await deadLetter).toMatchObject({ saga: 'approval', instance: 'a', stage: 'dispatch', timer: 'approval/a/escalation', cmd: { type: 'escalate' } });
+    });
+
+    it('settles idle when stopped with events still queued', async () => {
+        const events$ = new Subject<AnyEvt>();
+        const dispatched: string[] = [];
+        let release = () => {};
+        const dispatch = (cmd: AnyCmd) => new Promise<ReturnType<typeof succeed<AnyCmd>>>(resolve => {
+            release = () => { dispatched.push(cmd.causationid ?? ''); resolve(succeed(cmd)); };
+        });
+        const notify = defineSaga<AnyEvt, {}, AnyCmd>('notify')({
+            on: ['approval-requested'],
+            correlate: (e) => e.data.id,
+            initialState: {},
+            evolve: () => (state) => state,
+            react: () => () => succeed({ commands: [escalate('a')] })
+        });
+        const runtime = runSagas<AnyEvt, AnyCmd>({ store: inMemorySagaStore(), scheduler: inMemoryScheduler(), dispatch })([notify])(events$);
+
+        events$.next(requested('a'));
+        events$.next(requested('b'));
+        await new Promise(resolve => setTimeout(resolve, 0));
+        runtime.stop();
+        release();
+
+        await expect(runtime.idle()).resolves.toBeUndefined();
+        expect(dispatched).toEqual(['evt-a']);
+    });
+});
@@ -0,0 +1,254 @@
+import { concatMap, finalize, from, map, merge, Observable, Subject, Subscription, tap } from "rxjs";
+import { AnyCmd, AnyEvt, AsyncResult, Cause, dtFromMsg, isFailure, Saga, stepSaga } from "../../core";
+import { ScheduledEntry, Scheduler } from "../scheduler";
+import { SagaInstance, SagaStore } from "./saga-store";
+
+type _AnySaga = Saga<any, any, any, string>;
+
+/**
+ * Type representing failure messages raised by the saga runtime itself.
+ */
+export type SagaRuntimeFails = 'saga_runtime_error';
+
+/**
+ * The stage of a saga run at which a dead letter was produced.
+ */
+export type SagaStage = 'load-state' | 'react' | 'save' | 'schedule' | 'dispatch';
+
+/**
+ * A saga run, or part of one, that did not go through.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ * @property {string} [timer] - The key of the timer, for runs triggered by a timer rather than an event.
+ */
+export type SagaDeadLetter<E extends AnyEvt, C extends AnyCmd> = {
+    saga: string;
+    instance: string;
+    stage: SagaStage;
+    evt?: E;
+    timer?: string;
+    cmd?: C;
+    cause: Cause<string>[];
+};
+
+/**
+ * A command dispatched by a saga, together with the event or the timer that caused it.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ */
+export type SagaDispatch<E extends AnyEvt, C extends AnyCmd> = {
+    saga: string;
+    instance: string;
+    evt?: E;
+    timer?: string;
+    cmd: C;
+};
+
+/**
+ * The ports the saga runtime needs.
+ * @template C The type of the command.
+ * @property {SagaStore} store - Persists the state of the saga instances.
+ * @property {Scheduler<C>} scheduler - Sends the scheduled commands when they are due.
+ * @property dispatch - Dispatches the commands.
+ */
+export type SagaRuntimeCtx<C extends AnyCmd> = {
+    store: SagaStore;
+    scheduler: Scheduler<C>;
+    dispatch: (cmd: C) => AsyncResult<unknown, string>;
+};
+
+/**
+ * A running saga runtime.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ * @property idle - Resolves once every event and timer received so far is handled, or dropped by `stop`.
+ */
+export type SagaRuntime<E extends AnyEvt, C extends AnyCmd> = {
+    dispatched$: Observable<SagaDispatch<E, C>>;
+    deadLetters$: Observable<SagaDeadLetter<E, C>>;
+    idle: () => Promise<void>;
+    stop: () => void;
+};
+
+/**
+ * The key of a timer in the scheduler: the timer key, scoped to its saga and instance.
+ * @param {string} saga - The name of the saga.
+ * @param {string} instance - The ID of the instance.
+ * @param {string} key - The key of the timer within the instance.
+ * @returns {string} The scheduler key.
+ */
+export const sagaTimerKey = (saga: string, instance: string, key: string): string =>
+    [saga, instance, key].map(encodeURIComponent).join('/');
+
+/**
+ * Reads the saga and instance back from a scheduler key built by `sagaTimerKey`.
+ * @param {string} timerKey - The scheduler key.
+ * @returns The saga and instance, or `undefined` for keys of other schedulers' users.
+ */
+const parseTimerKey = (timerKey: string): { saga: string; instance: string } | undefined => {
+    const parts = timerKey.split('/');
+    return parts.length === 3 ? { saga: decodeURIComponent(parts[0]), instance: decodeURIComponent(parts[1]) } : undefined;
+};
+
+/**
+ * Work for the runtime, handled one item at a time.
+ */
+type SagaWork<E extends AnyEvt, C extends AnyCmd> =
+    | { _tag: 'evt'; evt: E }
+    | { _tag: 'timer'; entry: ScheduledEntry<C> };
+
+/**
+ * Subscribes a set of sagas to an event stream and to the scheduler.
+ * Each event is routed to the sagas handling its `type`: the instance it correlates to is loaded (or started),
+ * evolved with the event and saved, then its timers are cancelled or scheduled and its commands dispatched.
+ * When a timer falls due, its command is dispatched unless the instance is complete by then.
+ * Commands are traced back to the event that caused them through `dtFromMsg`, including scheduled ones.
+ * Events and timers are handled one at a time, in order. Successful dispatches are published on `dispatched$`,
+ * every failure on `deadLetters$`, so no failure is dropped; a thrown exception is dead-lettered at the stage that threw it.
+ * @template E The type of the event.
+ * @template C The type of the command.
+ * @param {SagaRuntimeCtx<C>} ctx - The saga store, scheduler and command dispatcher.
+ * @returns A function that takes the sagas and the event stream, and returns the running runtime.
+ */
+export const runSagas = <E extends AnyEvt, C extends AnyCmd>(ctx: SagaRuntimeCtx<C>) =>
+    (sagas: _AnySaga[]) =>
+    (events$: Observable<E>): SagaRuntime<E, C> => {
+        const dispatched$ = new Subject<SagaDispatch<E, C>>();
+        const deadLetters$ = new Subject<SagaDeadLetter<E, C>>();
+
+        let pending = 0;
+        let waiters: (() => void)[] = [];
+        const settled = (count: number) => {
+            pending -= count;
+            if (pending === 0) {
+                waiters.forEach(resolve => resolve());
+                waiters = [];
+            }
+        };
+
+        const send = async (origin: Pick<SagaDispatch<E, C>, 'saga' | 'instance' | 'evt' | 'timer'>, cmd: C) => {
+            const dispatchRes = await ctx.dispatch(cmd);
+            if (isFailure(dispatchRes)) {
+                deadLetters$.next({ ...origin, stage: 'dispatch', cmd, cause: dispatchRes.cause });
+            } else {
+                dispatched$.next({ ...origin, cmd });
+            }
+        };
+
+        const handleEvt = (saga: _AnySaga) => async (evt: E) => {
+            let instance = '';
+            let stage: SagaStage = 'load-state';
+            let cmd: C | undefined;
+            const deadLetter = (cause: Cause<string>[]) =>
+                deadLetters$.next({ saga: saga.name, instance, stage, evt, cmd, cause });
+            try {
+                instance = saga.correlate(evt);
+                const loadRes = await ctx.store.load(saga.name, instance);
+                if (isFailure(loadRes)) {
+                    return deadLetter(loadRes.cause);
+                }
+                const current: SagaInstance<unknown> = loadRes.data ?? { saga: saga.name, id: instance, state: saga.initialState, version: 0, done: false };
+                if (current.done) {
+                    return;
+                }
+                stage = 'react';
+                const stepRes = stepSaga(saga)(current.state)(evt);
+                if (isFailure(stepRes)) {
+                    return deadLetter(stepRes.cause);
+                }
+                const { state, reaction, done } = stepRes.data;
+                stage = 'save';
+                const saveRes = await ctx.store.save({ ...current, state, version: current.version + 1, done });
+                if (isFailure(saveRes)) {
+                    return deadLetter(saveRes.cause);
+                }
+
+                stage = 'schedule';
+                for (const key of reaction.cancel) {
+                    const cancelRes = await ctx.scheduler.cancel(sagaTimerKey(saga.name, instance, key));
+                    if (isFailure(cancelRes)) {
+                        deadLetter(cancelRes.cause);
+                    }
+                }
+                for (const scheduled of reaction.schedule) {
+                    cmd = { ...scheduled.cmd, ...dtFromMsg(evt) };
+                    const entry: ScheduledEntry<C> = { key: sagaTimerKey(saga.name, instance, scheduled.key), dueAt: ctx.scheduler.now() + scheduled.delayMs, cmd };
+                    const scheduleRes = await ctx.scheduler.schedule(entry);
+                    if (isFailure(scheduleRes)) {
+                        deadLetter(scheduleRes.cause);
+                    }
+                }
+                stage = 'dispatch';
+                for (const reactionCmd of reaction.commands) {
+                    cmd = { ...reactionCmd, ...dtFromMsg(evt) };
+                    await send({ saga: saga.name, instance, evt }, cmd);
+                }
+            } catch (e) {
+                deadLetter([{ msg: 'saga_runtime_error', data: e }]);
+            }
+        };
+
+        const handleTimer = async (entry: ScheduledEntry<C>) => {
+            const owner = parseTimerKey(entry.key);
+            const saga = owner && sagas.find(s => s.name === owner.saga);
+            if (!owner || !saga) {
+                return;
+            }
+            let stage: SagaStage = 'load-state';
+            const deadLetter = (cause: Cause<string>[]) =>
+                deadLetters$.next({ saga: saga.name, instance: owner.instance, stage, timer: entry.key, cmd: entry.cmd, cause });
+            try {
+                const loadRes = await ctx.store.load(saga.name, owner.instance);
+                if (isFailure(loadRes)) {
+                    return deadLetter(loadRes.cause);
+                }
+                if (loadRes.data?.done) {
+                    return;
+                }
+                stage = 'dispatch';
+                await send({ saga: saga.name, instance: owner.instance, timer: entry.key }, entry.cmd);
+            } catch (e) {
+                deadLetter([{ msg: 'saga_runtime_error', data: e }]);
+            }
+        };
+
+        const handle = async (work: SagaWork<E, C>) => {
+            if (work._tag === 'timer') {
+                return handleTimer(work.entry);
+            }
+            for (const saga of sagas.filter(s => (s.on as string[]).includes(work.evt.type))) {
+                await handleEvt(saga)(work.evt);
+            }
+        };
+
+        const work$: Observable<SagaWork<E, C>> = merge(
+            events$.pipe(map((evt): SagaWork<E, C> => ({ _tag: 'evt', evt }))),
+            ctx.scheduler.due$.pipe(map((entry): SagaWork<E, C> => ({ _tag: 'timer', entry })))
+        );
+
+        const subscription: Subscription = work$
+            .pipe(
+                tap(() => { pending += 1; }),
+                concatMap(work => from(handle(work)).pipe(finalize(() => settled(1))))
+            )
+            .subscribe({
+                error: (e) => {
+                    dispatched$.error(e);
+                    deadLetters$.error(e);
+                }
+            });
+
+        const idle = () => pending === 0 ? Promise.resolve() : new Promise<void>(resolve => { waiters.push(resolve); });
+
+        return {
+            dispatched$: dispatched$.asObservable(),
+            deadLetters$: deadLetters$.asObservable(),
+            idle,
+            stop: () => {
+                subscription.unsubscribe();
+                if (pending > 0) {
+                    settled(pending);
+                }
+            }
+        };
+    };
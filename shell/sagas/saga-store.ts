@@ -0,0 +1,44 @@
+import { AsyncResult, fail, Failure } from "../../core";
+
+/**
+ * Type representing possible failure messages of a saga store.
+ */
+export type SagaStoreFails = 'saga_store_error';
+
+/**
+ * The persisted state of a saga instance.
+ * @template S The type of the state of the saga.
+ * @property {string} saga - The name of the saga.
+ * @property {string} id - The ID of the instance, as returned by `correlate`.
+ * @property {S} state - The state of the instance.
+ * @property {number} version - The number of events the instance handled.
+ * @property {boolean} done - Whether the instance is complete.
+ */
+export type SagaInstance<S> = {
+    saga: string;
+    id: string;
+    state: S;
+    version: number;
+    done: boolean;
+};
+
+/**
+ * Port for saving and loading saga instances, by saga name and instance ID.
+ */
+export type SagaStore = {
+    /**
+     * Saves an instance, replacing the previous state.
+     */
+    save: <S>(instance: SagaInstance<S>) => AsyncResult<SagaInstance<S>, SagaStoreFails>;
+    /**
+     * Loads an instance, or `undefined` if it never handled an event.
+     */
+    load: <S>(saga: string, id: string) => AsyncResult<SagaInstance<S> | undefined, SagaStoreFails>;
+};
+
+/**
+ * Wraps an unexpected storage error into a `saga_store_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<SagaStoreFails>} A failure result.
+ */
+export const sagaStoreError = (e: unknown): Failure<SagaStoreFails> => fail<SagaStoreFails>('saga_store_error', e);
@@ -0,0 +1,60 @@
+import { Subject } from "rxjs";
+import { AnyCmd, succeed, VirtualClock, virtualClock } from "../../core";
+import { ScheduledEntry, Scheduler } from "./scheduler";
+
+/**
+ * A scheduler whose time only moves when told to.
+ * @template C The type of the commands.
+ * @property advance - Moves the clock forward by `ms` milliseconds, emitting on `due$` every entry falling due on the way,
+ * with the clock set to its due date, and returns them.
+ * @property pending - The entries not yet due, in due order.
+ */
+export type VirtualScheduler<C extends AnyCmd> = Scheduler<C> & {
+    advance: (ms: number) => ScheduledEntry<C>[];
+    pending: () => ScheduledEntry<C>[];
+};
+
+/**
+ * Creates a scheduler kept in memory and driven by a virtual clock, so timeouts can be tested deterministically:
+ * nothing falls due until `advance` is called. Entries due at the same time fall due in scheduling order.
+ * @template C The type of the commands.
+ * @param {VirtualClock} [clock] - The virtual clock, defaults to a new one starting at 0.
+ * @returns {VirtualScheduler<C>} An in-memory scheduler.
+ */
+export const inMemoryScheduler = <C extends AnyCmd>(clock: VirtualClock = virtualClock()): VirtualScheduler<C> => {
+    const entries = new Map<string, ScheduledEntry<C>>();
+    const due$ = new Subject<ScheduledEntry<C>>();
+
+    const pending: VirtualScheduler<C>['pending'] = () =>
+        [...entries.values()].sort((a, b) => a.dueAt - b.dueAt).map(e => structuredClone(e));
+
+    const schedule: Scheduler<C>['schedule'] = async (entry) => {
+        entries.delete(entry.key);
+        entries.set(entry.key, structuredClone(entry));
+        return succeed(entry);
+    };
+
+    const cancel: Scheduler<C>['cancel'] = async (key) => succeed(entries.delete(key));
+
+    const advance: VirtualScheduler<C>['advance'] = (ms) => {
+        const until = clock.now() + ms;
+        const fired: ScheduledEntry<C>[] = [];
+        for (let next = pending()[0]; next && next.dueAt <= until; next = pending()[0]) {
+            entries.delete(next.key);
+            clock.set(Math.max(clock.now(), next.dueAt));
+            fired.push(next);
+            due$.next(next);
+        }
+        clock.set(until);
+        return fired;
+    };
+
+    return {
+        now: clock.now,
+        schedule,
+        cancel,
+        due$: due$.asObservable(),
+        advance,
+        pending
+    };
+};
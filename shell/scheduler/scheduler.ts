@@ -0,0 +1,50 @@
+import { Observable } from "rxjs";
+import { AnyCmd, AsyncResult, Clock, fail, Failure } from "../../core";
+
+/**
+ * Type representing possible failure messages of a scheduler.
+ */
+export type SchedulerFails = 'scheduler_error';
+
+/**
+ * A command waiting for its time.
+ * @template C The type of the command.
+ * @property {string} key - Identifies the entry, to cancel or replace it.
+ * @property {number} dueAt - When the command is due, in milliseconds since the epoch.
+ * @property {C} cmd - The command.
+ */
+export type ScheduledEntry<C extends AnyCmd> = {
+    key: string;
+    dueAt: number;
+    cmd: C;
+};
+
+/**
+ * Port for sending commands later.
+ * @template C The type of the commands.
+ */
+export type Scheduler<C extends AnyCmd> = {
+    /**
+     * The time of the scheduler, which due dates are measured against.
+     */
+    now: Clock;
+    /**
+     * Schedules a command, replacing any entry with the same key.
+     */
+    schedule: (entry: ScheduledEntry<C>) => AsyncResult<ScheduledEntry<C>, SchedulerFails>;
+    /**
+     * Cancels the entry with the given key, returning whether there was one.
+     */
+    cancel: (key: string) => AsyncResult<boolean, SchedulerFails>;
+    /**
+     * The entries, as they fall due, in due order.
+     */
+    due$: Observable<ScheduledEntry<C>>;
+};
+
+/**
+ * Wraps an unexpected scheduling error into a `scheduler_error` failure.
+ * @param {unknown} e - The error thrown by the underlying scheduler.
+ * @returns {Failure<SchedulerFails>} A failure result.
+ */
+export const schedulerError = (e: unknown): Failure<SchedulerFails> => fail<SchedulerFails>('scheduler_error', e);
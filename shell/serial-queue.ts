@@ -0,0 +1,18 @@
+/**
+ * Runs asynchronous operations one at a time.
+ */
+export type SerialQueue = <T>(op: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a queue that runs each operation once the previous ones have settled, whether they resolved or rejected.
+ * @returns {SerialQueue} A function that takes an operation and returns its outcome.
+ */
+export const serialQueue = (): SerialQueue => {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    return <T>(op: () => Promise<T>): Promise<T> => {
+        const next = queue.then(op, op);
+        queue = next.catch(() => undefined);
+        return next;
+    };
+};
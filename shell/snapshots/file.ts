@@ -0,0 +1,21 @@
+import { join } from "node:path";
+import { jsonFileStore } from "../json-file-store";
+import { Snapshot, SnapshotStore, SnapshotStoreFails, snapshotStoreError } from "./snapshot-store";
+
+/**
+ * Creates a snapshot store that writes the latest snapshot of each stream to its own JSON file.
+ * Files are replaced atomically, so a crash while saving leaves the previous snapshot in place.
+ * @template A The type of the state (the Aggregate).
+ * @param {string} dirPath - The directory holding the snapshot files. It is created on first save.
+ * @returns {SnapshotStore<A>} A file-based snapshot store.
+ */
+export const fileSnapshotStore = <A>(dirPath: string): SnapshotStore<A> => {
+    const files = jsonFileStore<Snapshot<A>, SnapshotStoreFails>(snapshotStoreError);
+    const fileOf = (streamId: string) => join(dirPath, `${encodeURIComponent(streamId)}.json`);
+
+    return {
+        save: (snapshot) => files.save(fileOf(snapshot.streamId), snapshot),
+        load: (streamId) => files.load(fileOf(streamId)),
+        remove: (streamId) => files.remove(fileOf(streamId))
+    };
+};
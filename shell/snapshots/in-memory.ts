@@ -0,0 +1,32 @@
+import { succeed } from "../../core";
+import { Snapshot, SnapshotStore } from "./snapshot-store";
+
+/**
+ * Creates a snapshot store that keeps the latest snapshot of each stream in memory.
+ * @template A The type of the state (the Aggregate).
+ * @returns {SnapshotStore<A>} An in-memory snapshot store.
+ */
+export const inMemorySnapshotStore = <A>(): SnapshotStore<A> => {
+    const snapshots = new Map<string, Snapshot<A>>();
+
+    const save: SnapshotStore<A>['save'] = async (snapshot) => {
+        snapshots.set(snapshot.streamId, structuredClone(snapshot));
+        return succeed(snapshot);
+    };
+
+    const load: SnapshotStore<A>['load'] = async (streamId) => {
+        const snapshot = snapshots.get(streamId);
+        return succeed(snapshot === undefined ? undefined : structuredClone(snapshot));
+    };
+
+    const remove: SnapshotStore<A>['remove'] = async (streamId) => {
+        snapshots.delete(streamId);
+        return succeed(undefined);
+    };
+
+    return {
+        save,
+        load,
+        remove
+    };
+};
@@ -0,0 +1,4 @@
+export * from './snapshot-store'
+export * from './in-memory'
+export * from './file'
+export * from './policy'
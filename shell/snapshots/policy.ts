@@ -0,0 +1,32 @@
+import { Snapshot } from "./snapshot-store";
+
+/**
+ * When to take a new snapshot. A snapshot is due when any of the configured conditions holds.
+ * @property {number} [everyEvents] - Take a snapshot once this many events were appended since the last one.
+ * @property {number} [maxAgeMs] - Take a snapshot once the last one is older than this, if the stream moved since.
+ */
+export type SnapshotPolicy = {
+    everyEvents?: number;
+    maxAgeMs?: number;
+};
+
+/**
+ * Decides whether a new snapshot is due.
+ * @template A The type of the state (the Aggregate).
+ * @param {SnapshotPolicy} policy - The snapshot policy.
+ * @returns A function that takes the last snapshot (if any), the current stream version and the current time.
+ */
+export const shouldSnapshot = (policy: SnapshotPolicy) =>
+    <A>(lastSnapshot: Snapshot<A> | undefined, version: number, now: number): boolean => {
+        const lastVersion = lastSnapshot?.version ?? 0;
+        if (version <= lastVersion) {
+            return false;
+        }
+        if (policy.everyEvents !== undefined && version - lastVersion >= policy.everyEvents) {
+            return true;
+        }
+        if (policy.maxAgeMs !== undefined) {
+            return lastSnapshot === undefined || now - lastSnapshot.takenAt >= policy.maxAgeMs;
+        }
+        return false;
+    };
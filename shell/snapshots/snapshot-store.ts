@@ -0,0 +1,49 @@
+import { AsyncResult, fail, Failure } from "../../core";
+
+/**
+ * Type representing possible failure messages of a snapshot store.
+ */
+export type SnapshotStoreFails = 'snapshot_store_error';
+
+/**
+ * The state of an aggregate at a given stream version.
+ * @template A The type of the state (the Aggregate).
+ * @property {string} streamId - The stream the snapshot was taken from.
+ * @property {number} version - The stream version the state corresponds to.
+ * @property {string | number} schemaVersion - The version of the aggregate schema the state was saved with.
+ * @property {number} takenAt - When the snapshot was taken, in milliseconds since the epoch.
+ * @property {A} state - The aggregate.
+ */
+export type Snapshot<A> = {
+    streamId: string;
+    version: number;
+    schemaVersion: string | number;
+    takenAt: number;
+    state: A;
+};
+
+/**
+ * Port for saving and loading the latest snapshot of each stream.
+ * @template A The type of the state (the Aggregate).
+ */
+export type SnapshotStore<A> = {
+    /**
+     * Saves a snapshot, replacing the previous snapshot of its stream.
+     */
+    save: (snapshot: Snapshot<A>) => AsyncResult<Snapshot<A>, SnapshotStoreFails>;
+    /**
+     * Loads the latest snapshot of a stream, or `undefined` if there is none.
+     */
+    load: (streamId: string) => AsyncResult<Snapshot<A> | undefined, SnapshotStoreFails>;
+    /**
+     * Removes the snapshot of a stream, if any.
+     */
+    remove: (streamId: string) => AsyncResult<void, SnapshotStoreFails>;
+};
+
+/**
+ * Wraps an unexpected storage error into a `snapshot_store_error` failure.
+ * @param {unknown} e - The error thrown by the underlying storage.
+ * @returns {Failure<SnapshotStoreFails>} A failure result.
+ */
+export const snapshotStoreError = (e: unknown): Failure<SnapshotStoreFails> => fail<SnapshotStoreFails>('snapshot_store_error', e);